@@ -198,6 +198,13 @@ export class WebsocketSyncServer {
     }
 
 
+     public getUserGroups(user:string):string[]{
+        if(user != "__noAuth" && this.authData.users.hasOwnProperty(user)){
+            return this.authData.users[user].groups || [];
+        }
+        return [];
+     }
+
      public checkPermission(user:string,required:string, write:boolean){
         
         try{
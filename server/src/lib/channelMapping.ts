@@ -0,0 +1,391 @@
+/*
+    NMOS Crosspoint
+    Copyright (C) 2021 Johannes Grieb
+*/
+
+import axios from "axios";
+import { SyncObject } from "./SyncServer/syncObject";
+import { WebsocketSyncServer } from "./SyncServer/websocketSyncServer";
+import { WebsocketClient } from "./SyncServer/websocketClient";
+import { LoggedError, SyncLog } from "./syncLog";
+import { NmosRegistryConnector } from "./nmosConnector";
+import { CrosspointAbstraction, CrosspointActivation } from "./crosspointAbstraction";
+import { ChannelMappingFlowId, TaiToUtc } from "./functions";
+
+
+// IS-08 Audio Channel Mapping, reads and changes the channel maps of all devices with a cm-ctrl control
+export class ChannelMapping {
+    public static instance: ChannelMapping | null;
+
+    public syncChannelMapping: SyncObject;
+    channelMappingState: ChannelMappingState = {devices:{}};
+
+    private controlTypes = ["urn:x-nmos:control:cm-ctrl/v1.0"];
+    private deviceVersions = {};
+    private flowIndex: {[flowId:string]:ChannelMappingFlow} = {};
+
+    constructor(){
+        if(ChannelMapping.instance == null){
+            ChannelMapping.instance = this;
+        }
+        this.syncChannelMapping = new SyncObject("channelmapping", this.channelMappingState);
+
+        let server = WebsocketSyncServer.getInstance();
+        server.addSyncObject("channelmapping","global",this.syncChannelMapping);
+
+        NmosRegistryConnector.registerHook("devices", (id, data)=>{
+            try{
+                if(this.getControlHref(data) && this.deviceVersions[id] != data.version){
+                    this.deviceVersions[id] = data.version;
+                    this.loadDevice(id, data.label, this.getControlHref(data));
+                }
+            }catch(e){}
+        });
+
+        setInterval(()=>{
+            this.reloadAll();
+        },30000);
+
+        server.addRoute("POST", "channelmapping_stage","global", (client: WebsocketClient, query:string[], postData: any) => {
+            return new Promise((resolve, reject) => {
+                try{
+                    this.stage(postData.deviceId, postData.outputId, postData.channels);
+                    resolve({});
+                }catch(e){
+                    reject({status:400, message:e.message});
+                }
+            });
+        });
+
+        server.addRoute("POST", "channelmapping_unstage","global", (client: WebsocketClient, query:string[], postData: any) => {
+            return new Promise((resolve, reject) => {
+                try{
+                    this.unstage(postData.deviceId);
+                    resolve({});
+                }catch(e){
+                    reject({status:400, message:e.message});
+                }
+            });
+        });
+
+        server.addRoute("POST", "channelmapping_activate","global", (client: WebsocketClient, query:string[], postData: any) => {
+            return new Promise((resolve, reject) => {
+                let activation:CrosspointActivation;
+                try{
+                    activation = CrosspointAbstraction.instance.parseActivation(postData.activation);
+                }catch(e){
+                    reject({status:400, message:e.message});
+                    return;
+                }
+                this.activateStaged(postData.deviceId, activation)
+                    .then((log)=>resolve({data:{log:log}}))
+                    .catch((e)=>reject({status:400, message:e.message}));
+            });
+        });
+    }
+
+    private getControlHref(device:any){
+        for(let c of device.controls){
+            if(this.controlTypes.includes(c.type)){
+                let href = c.href;
+                if(href[href.length-1] != "/"){
+                    href += "/";
+                }
+                return href;
+            }
+        }
+        return null;
+    }
+
+    // Polled every 30s, clients and the crosspoint are only notified once and only if a map changed
+    async reloadAll(){
+        let previous = JSON.stringify(this.channelMappingState.devices);
+        for(let id of Object.keys(this.channelMappingState.devices)){
+            let dev = this.channelMappingState.devices[id];
+            await this.loadDevice(id, dev.label, dev.href, false);
+        }
+        if(JSON.stringify(this.channelMappingState.devices) != previous){
+            this.updateState();
+        }
+    }
+
+    async loadDevice(deviceId:string, label:string, href:string, notify:boolean = true){
+        let dev = this.channelMappingState.devices[deviceId];
+        let previous = JSON.stringify(dev || null);
+        try{
+            let io = await axios.get(href + "io", {timeout:10000});
+            let active = await axios.get(href + "map/active", {timeout:10000});
+
+            if(!dev){
+                dev = {id:deviceId, label:label, href:href, failures:0, inputs:{}, outputs:{}, staged:{}, activations:{}};
+                this.channelMappingState.devices[deviceId] = dev;
+            }
+            dev.label = label;
+            dev.href = href;
+            dev.failures = 0;
+            dev.inputs = {};
+            dev.outputs = {};
+
+            for(let inputId in io.data.inputs){
+                let input = io.data.inputs[inputId];
+                dev.inputs[inputId] = {
+                    name: input.properties?.name || inputId,
+                    parent: input.parent || {id:null, type:null},
+                    channels: input.channels.map((c)=>{
+                        return {label:c.label};
+                    })
+                };
+            }
+
+            for(let outputId in io.data.outputs){
+                let output = io.data.outputs[outputId];
+                let map = active.data.map[outputId] || {};
+                dev.outputs[outputId] = {
+                    name: output.properties?.name || outputId,
+                    sourceId: output.source_id,
+                    routableInputs: output.caps?.routable_inputs || null,
+                    channels: output.channels.map((c, index)=>{
+                        let route = map[""+index] || {input:null, channel_index:null};
+                        return {label:c.label, input:route.input, channelIndex:route.channel_index};
+                    })
+                };
+            }
+        }catch(e){
+            if(dev){
+                dev.failures++;
+                if(dev.failures >= 3){
+                    SyncLog.log("warning", "channelmapping", "Removed unreachable device: "+label, {href, message:e.message});
+                    delete this.channelMappingState.devices[deviceId];
+                    delete this.deviceVersions[deviceId];
+                }
+            }else{
+                SyncLog.log("warning", "channelmapping", "Can not load channel mapping of device: "+label, {href, message:e.message});
+            }
+        }
+        if(notify && JSON.stringify(this.channelMappingState.devices[deviceId] || null) != previous){
+            this.updateState();
+        }
+    }
+
+    updateState(){
+        this.flowIndex = {};
+        for(let deviceId in this.channelMappingState.devices){
+            let dev = this.channelMappingState.devices[deviceId];
+            for(let inputId in dev.inputs){
+                dev.inputs[inputId].channels.forEach((c, index)=>{
+                    this.flowIndex[ChannelMappingFlowId(deviceId, "input", inputId, index)] = {deviceId, direction:"input", ioId:inputId, index};
+                });
+            }
+            for(let outputId in dev.outputs){
+                dev.outputs[outputId].channels.forEach((c, index)=>{
+                    this.flowIndex[ChannelMappingFlowId(deviceId, "output", outputId, index)] = {deviceId, direction:"output", ioId:outputId, index};
+                });
+            }
+        }
+        this.syncChannelMapping.setState(this.channelMappingState);
+        if(CrosspointAbstraction.instance){
+            CrosspointAbstraction.instance.updateFromChannelMapping(this.channelMappingState);
+        }
+    }
+
+    stage(deviceId:string, outputId:string, channels:any){
+        let dev = this.channelMappingState.devices[deviceId];
+        if(!dev){
+            throw new Error("Device not found: "+deviceId);
+        }
+        if(!dev.outputs[outputId]){
+            throw new Error("Output not found: "+outputId);
+        }
+        for(let index in channels){
+            this.checkRoute(dev, outputId, Number.parseInt(index), channels[index].input, channels[index].channel_index);
+        }
+        if(!dev.staged[outputId]){
+            dev.staged[outputId] = {};
+        }
+        for(let index in channels){
+            dev.staged[outputId][index] = {input:channels[index].input, channel_index:channels[index].channel_index};
+        }
+        this.syncChannelMapping.setState(this.channelMappingState);
+    }
+
+    unstage(deviceId:string){
+        let dev = this.channelMappingState.devices[deviceId];
+        if(!dev){
+            throw new Error("Device not found: "+deviceId);
+        }
+        dev.staged = {};
+        this.syncChannelMapping.setState(this.channelMappingState);
+    }
+
+    async activateStaged(deviceId:string, activation:CrosspointActivation){
+        let dev = this.channelMappingState.devices[deviceId];
+        if(!dev){
+            throw new Error("Device not found: "+deviceId);
+        }
+        if(Object.keys(dev.staged).length == 0){
+            throw new Error("Nothing staged for device: "+dev.label);
+        }
+        let log = await this.activate(dev, dev.staged, activation);
+        dev.staged = {};
+        this.syncChannelMapping.setState(this.channelMappingState);
+        return log;
+    }
+
+    // Routes crosspoint audiochannel flows, all changes of one device are sent in one activation
+    async makeConnections(list:{src:string|null, dst:string}[], activation:CrosspointActivation){
+        let results:{log?:any, error?:any}[] = [];
+        let groups:{[deviceId:string]:{index:number, outputId:string, channel:number, input:string|null, channelIndex:number|null}[]} = {};
+
+        list.forEach((c, index)=>{
+            try{
+                let dst = this.flowIndex[c.dst];
+                if(!dst || dst.direction != "output"){
+                    throw new Error("Channel mapping output not available.");
+                }
+                let input = null;
+                let channelIndex = null;
+                if(c.src){
+                    let src = this.flowIndex[c.src];
+                    if(!src || src.direction != "input"){
+                        throw new Error("Channel mapping input not available.");
+                    }
+                    if(src.deviceId != dst.deviceId){
+                        throw new Error("Channels can only be mapped within one device.");
+                    }
+                    input = src.ioId;
+                    channelIndex = src.index;
+                }
+                this.checkRoute(this.channelMappingState.devices[dst.deviceId], dst.ioId, dst.index, input, channelIndex);
+                if(!groups[dst.deviceId]){
+                    groups[dst.deviceId] = [];
+                }
+                groups[dst.deviceId].push({index, outputId:dst.ioId, channel:dst.index, input, channelIndex});
+            }catch(e){
+                results[index] = {error:e};
+            }
+        });
+
+        await Promise.all(Object.keys(groups).map(async (deviceId)=>{
+            let dev = this.channelMappingState.devices[deviceId];
+            let action = {};
+            groups[deviceId].forEach((g)=>{
+                if(!action[g.outputId]){
+                    action[g.outputId] = {};
+                }
+                action[g.outputId][""+g.channel] = {input:g.input, channel_index:g.channelIndex};
+            });
+            try{
+                let log = await this.activate(dev, action, activation);
+                groups[deviceId].forEach((g)=>{
+                    results[g.index] = {log:log};
+                });
+            }catch(e){
+                groups[deviceId].forEach((g)=>{
+                    results[g.index] = {error:e};
+                });
+            }
+        }));
+
+        return results;
+    }
+
+    private checkRoute(dev:ChannelMappingDevice, outputId:string, channel:number, input:string|null, channelIndex:number|null){
+        let output = dev.outputs[outputId];
+        if(!output || channel < 0 || channel >= output.channels.length){
+            throw new Error("Output channel not available: "+outputId+" "+channel);
+        }
+        if(input == null){
+            return;
+        }
+        if(!dev.inputs[input] || channelIndex == null || channelIndex < 0 || channelIndex >= dev.inputs[input].channels.length){
+            throw new Error("Input channel not available: "+input+" "+channelIndex);
+        }
+        if(output.routableInputs != null && !output.routableInputs.includes(input)){
+            throw new Error("Input "+dev.inputs[input].name+" is not routable to output "+output.name);
+        }
+    }
+
+    private async activate(dev:ChannelMappingDevice, action:any, activation:CrosspointActivation){
+        let body = {
+            activation:{
+                mode:activation.mode,
+                requested_time:activation.requestedTime
+            },
+            action:action
+        };
+        let href = dev.href + "map/activations";
+        try{
+            let response = await axios.post(href, body, {timeout:30000});
+            if(activation.mode == "activate_immediate"){
+                let log = SyncLog.log("success", "channelmapping", "Channel mapping activated: "+dev.label, {href, data:body});
+                await this.loadDevice(dev.id, dev.label, dev.href);
+                return log;
+            }
+
+            for(let activationId in response.data){
+                let activationTime = response.data[activationId].activation?.activation_time;
+                dev.activations[activationId] = {
+                    mode:activation.mode,
+                    requestedTime:activation.requestedTime,
+                    activationTime:activationTime || null,
+                    action:action
+                };
+                let wait = (activationTime ? TaiToUtc(activationTime) - Date.now() : 0);
+                setTimeout(()=>{
+                    delete dev.activations[activationId];
+                    this.syncChannelMapping.setState(this.channelMappingState);
+                    this.loadDevice(dev.id, dev.label, dev.href);
+                }, Math.max(0, wait) + 1000);
+            }
+            this.syncChannelMapping.setState(this.channelMappingState);
+            return SyncLog.log("success", "channelmapping", "Channel mapping scheduled: "+dev.label, {href, data:body, response:response.data});
+        }catch(e){
+            if (axios.isAxiosError(e) && e.response) {
+                let id = SyncLog.log("error", "channelmapping", "Device "+dev.label+" returned Error: "+e.code, {href, data:body, error:e.response.data});
+                throw new LoggedError("Channel mapping failed: "+e.response.data.error + " / " +e.response.data.debug, id);
+            }
+            let id = SyncLog.log("error", "channelmapping", "Channel mapping failed on "+dev.label, {href, data:body, message:e.message});
+            throw new LoggedError("Channel mapping failed: "+e.message, id);
+        }
+    }
+}
+
+
+interface ChannelMappingFlow {
+    deviceId:string,
+    direction:"input"|"output",
+    ioId:string,
+    index:number
+}
+
+export interface ChannelMappingDevice {
+    id:string,
+    label:string,
+    href:string,
+    failures:number,
+    inputs:{
+        [inputId:string]:{
+            name:string,
+            parent:{id:string|null, type:string|null},
+            channels:{label:string}[]
+        }
+    },
+    outputs:{
+        [outputId:string]:{
+            name:string,
+            sourceId:string|null,
+            routableInputs:(string|null)[]|null,
+            channels:{label:string, input:string|null, channelIndex:number|null}[]
+        }
+    },
+    staged:{
+        [outputId:string]:{ [channel:string]:{input:string|null, channel_index:number|null} }
+    },
+    activations:{
+        [activationId:string]:{mode:string, requestedTime:string|null, activationTime:string|null, action:any}
+    }
+}
+
+export interface ChannelMappingState {
+    devices:{ [deviceId:string]:ChannelMappingDevice }
+}
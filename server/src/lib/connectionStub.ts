@@ -0,0 +1,294 @@
+/*
+    NMOS Crosspoint
+    Copyright (C) 2021 Johannes Grieb
+*/
+
+import { SyncLog } from "./syncLog";
+import { TaiToUtc, UtcToTai } from "./functions";
+
+const express = require("express");
+
+
+// Minimal IS-05 Connection API for the replay mode and the simulator. Device controls are redirected here,
+// staged parameters are activated (immediate or scheduled) and reported back as a registry update.
+// onActivation may return the active parameters with resolved "auto" values.
+export class ConnectionStub {
+    baseUrl:string;
+
+    private resources:{[key:string]:{staged:any, active:any}} = {};
+    private transportFiles:{[senderId:string]:string} = {};
+    private initialActive:{[key:string]:any} = {};
+    private constraints:{[key:string]:any[]} = {};
+    private timers:{[key:string]:any} = {};
+    private getResource:(type:string, id:string)=>any;
+    private onActivation:(type:string, id:string, active:any)=>any;
+    private topic:string;
+
+    constructor(port:number, getResource:(type:string, id:string)=>any, onActivation:(type:string, id:string, active:any)=>any, topic = "Replay"){
+        this.baseUrl = "http://127.0.0.1:" + port;
+        this.getResource = getResource;
+        this.onActivation = onActivation;
+        this.topic = topic;
+
+        let app = express();
+        app.use(express.json({limit:"10mb"}));
+
+        app.get("/x-nmos/connection/:version/", (req, res)=>{
+            res.json(["bulk/", "single/"]);
+        });
+
+        app.get("/x-nmos/connection/:version/single/:type/", (req, res)=>{
+            if(req.params.type != "senders" && req.params.type != "receivers"){
+                res.status(404).json({code:404, error:"Not supported"});
+                return;
+            }
+            let ids = this.listResources(req.params.type);
+            res.json(ids.map((id)=>id + "/"));
+        });
+
+        app.get("/x-nmos/connection/:version/single/:type/:id/", (req, res)=>{
+            if(!this.getState(req.params.type, req.params.id)){
+                res.status(404).json({code:404, error:"Resource not found"});
+                return;
+            }
+            let endpoints = ["constraints/", "staged/", "active/", "transporttype/"];
+            if(req.params.type == "senders"){
+                endpoints.push("transportfile/");
+            }
+            res.json(endpoints);
+        });
+
+        app.get("/x-nmos/connection/:version/single/:type/:id/:endpoint", (req, res)=>{
+            let state = this.getState(req.params.type, req.params.id);
+            if(!state){
+                res.status(404).json({code:404, error:"Resource not found"});
+                return;
+            }
+            switch(req.params.endpoint){
+                case "staged":
+                    res.json(state.staged);
+                    break;
+                case "active":
+                    res.json(state.active);
+                    break;
+                case "constraints":
+                    if(this.constraints[req.params.type + "/" + req.params.id]){
+                        res.json(this.constraints[req.params.type + "/" + req.params.id]);
+                        break;
+                    }
+                    res.json(state.active.transport_params.map((leg)=>{
+                        let constraints = {};
+                        Object.keys(leg).forEach((param)=>{
+                            constraints[param] = {};
+                        });
+                        return constraints;
+                    }));
+                    break;
+                case "transportfile":
+                    if(req.params.type == "senders" && this.transportFiles[req.params.id]){
+                        res.type("application/sdp").send(this.transportFiles[req.params.id]);
+                    }else{
+                        res.status(404).json({code:404, error:"No transport file available"});
+                    }
+                    break;
+                case "transporttype":
+                    res.json(this.getResource(req.params.type, req.params.id)?.transport || "urn:x-nmos:transport:rtp");
+                    break;
+                default:
+                    res.status(404).json({code:404, error:"Not supported"});
+            }
+        });
+
+        app.patch("/x-nmos/connection/:version/single/:type/:id/staged", (req, res)=>{
+            let result = this.patch(req.params.type, req.params.id, req.body);
+            res.status(result.code).json(result.body);
+        });
+
+        app.post("/x-nmos/connection/:version/bulk/:type", (req, res)=>{
+            let list = Array.isArray(req.body) ? req.body : [];
+            res.status(200).json(list.map((item)=>{
+                let result = this.patch(req.params.type, item.id, item.params);
+                return (result.code < 300) ? {id:item.id, code:result.code} : {id:item.id, code:result.code, error:result.body.error};
+            }));
+        });
+
+        app.all("/*", (req, res)=>{
+            res.status(404).json({code:404, error:"Not supported"});
+        });
+
+        app.listen(port, "127.0.0.1", ()=>{
+            SyncLog.log("info", this.topic, "IS-05 stub listening to: " + this.baseUrl);
+        }).on("error", (e)=>{
+            SyncLog.log("error", this.topic, "IS-05 stub can not listen to: " + this.baseUrl, {message:e.message});
+        });
+    }
+
+    // Keeps the path, replaces protocol, host and port
+    rewriteHref(href:string){
+        try{
+            return this.baseUrl + new URL(href).pathname;
+        }catch(e){
+            return href;
+        }
+    }
+
+    transportFileHref(senderId:string){
+        return this.baseUrl + "/x-nmos/connection/v1.1/single/senders/" + senderId + "/transportfile";
+    }
+
+    setTransportFile(senderId:string, sdp:string){
+        this.transportFiles[senderId] = sdp;
+    }
+
+    // Active parameters from a capture or a simulated device, used until the resource is patched
+    setActive(type:"senders"|"receivers", id:string, active:any){
+        this.initialActive[type + "/" + id] = active;
+        let state = this.resources[type + "/" + id];
+        if(state){
+            state.active = structuredClone(active);
+        }
+    }
+
+    // Without constraints every parameter of the active legs is allowed
+    setConstraints(type:"senders"|"receivers", id:string, constraints:any[]){
+        this.constraints[type + "/" + id] = constraints;
+    }
+
+    remove(type:"senders"|"receivers", id:string){
+        let key = type + "/" + id;
+        clearTimeout(this.timers[key]);
+        delete this.timers[key];
+        delete this.resources[key];
+        delete this.initialActive[key];
+        delete this.constraints[key];
+        if(type == "senders"){
+            delete this.transportFiles[id];
+        }
+    }
+
+    private listResources(type:string){
+        let ids = new Set<string>();
+        Object.keys({...this.resources, ...this.initialActive}).forEach((key)=>{
+            if(key.startsWith(type + "/")){
+                ids.add(key.slice(type.length + 1));
+            }
+        });
+        return [...ids];
+    }
+
+    private getState(type:string, id:string){
+        if(type != "senders" && type != "receivers"){
+            return null;
+        }
+        let key = type + "/" + id;
+        if(!this.resources[key]){
+            let resource = this.getResource(type, id);
+            if(!resource){
+                return null;
+            }
+            let active = this.initialActive[key] ? structuredClone(this.initialActive[key]) : this.getDefaultActive(type, resource);
+            this.resources[key] = {staged:structuredClone(active), active:active};
+        }
+        return this.resources[key];
+    }
+
+    private getDefaultActive(type:string, resource:any){
+        let legs = Math.max(resource.interface_bindings?.length || 0, 1);
+        let params = this.getDefaultParams(type, resource.transport || "");
+        let active:any = {
+            master_enable:(resource.subscription?.active === true),
+            activation:{mode:null, requested_time:null, activation_time:null},
+            transport_params:Array.from({length:legs}, ()=>({...params}))
+        };
+        if(type == "senders"){
+            active.receiver_id = resource.subscription?.receiver_id || null;
+        }else{
+            active.sender_id = resource.subscription?.sender_id || null;
+        }
+        return active;
+    }
+
+    private getDefaultParams(type:string, transport:string){
+        if(transport.startsWith("urn:x-nmos:transport:websocket")){
+            return {connection_uri:(type == "senders" ? "auto" : null), connection_authorization:"auto"};
+        }
+        if(transport.startsWith("urn:x-nmos:transport:mqtt")){
+            let broker = {broker_protocol:"auto", broker_authorization:"auto", broker_topic:null, connection_status_broker_topic:null};
+            if(type == "senders"){
+                return {destination_host:"auto", destination_port:"auto", ...broker};
+            }
+            return {source_host:null, source_port:null, ...broker};
+        }
+        if(type == "senders"){
+            return {source_ip:"auto", destination_ip:"auto", source_port:"auto", destination_port:"auto", rtp_enabled:true};
+        }
+        return {source_ip:null, multicast_ip:null, interface_ip:"auto", destination_port:"auto", rtp_enabled:true};
+    }
+
+    private patch(type:string, id:string, body:any):{code:number, body:any}{
+        let state = this.getState(type, id);
+        if(!state){
+            return {code:404, body:{code:404, error:"Resource not found"}};
+        }
+        body = body || {};
+        let params = body.transport_params || [];
+        if(params.length > state.staged.transport_params.length){
+            return {code:400, body:{code:400, error:"transport_params has more legs than the resource"}};
+        }
+
+        for(let key of ["sender_id", "receiver_id", "master_enable", "transport_file"]){
+            if(body.hasOwnProperty(key) && (key != "sender_id" || type == "receivers") && (key != "receiver_id" || type == "senders")){
+                state.staged[key] = body[key];
+            }
+        }
+        params.forEach((leg, index)=>{
+            state.staged.transport_params[index] = {...state.staged.transport_params[index], ...leg};
+        });
+
+        let key = type + "/" + id;
+        let activation = body.activation || {};
+        if(activation.mode === null && this.timers[key]){
+            clearTimeout(this.timers[key]);
+            delete this.timers[key];
+            state.staged.activation = {mode:null, requested_time:null, activation_time:null};
+            return {code:200, body:structuredClone(state.staged)};
+        }
+        if(activation.mode == "activate_immediate"){
+            state.staged.activation = {mode:activation.mode, requested_time:null, activation_time:UtcToTai(Date.now())};
+            let response = structuredClone(state.staged);
+            this.activate(type, id);
+            return {code:200, body:response};
+        }
+        if(activation.mode == "activate_scheduled_absolute" || activation.mode == "activate_scheduled_relative"){
+            let delay = NaN;
+            if(typeof activation.requested_time == "string"){
+                if(activation.mode == "activate_scheduled_absolute"){
+                    delay = TaiToUtc(activation.requested_time) - Date.now();
+                }else{
+                    delay = TaiToUtc(activation.requested_time) - TaiToUtc("0:0");
+                }
+            }
+            if(isNaN(delay)){
+                return {code:400, body:{code:400, error:"Invalid requested_time"}};
+            }
+            state.staged.activation = {mode:activation.mode, requested_time:activation.requested_time, activation_time:UtcToTai(Date.now() + Math.max(0, delay))};
+            clearTimeout(this.timers[key]);
+            this.timers[key] = setTimeout(()=>{
+                delete this.timers[key];
+                this.activate(type, id);
+            }, Math.max(0, delay));
+            return {code:202, body:structuredClone(state.staged)};
+        }
+        return {code:200, body:structuredClone(state.staged)};
+    }
+
+    private activate(type:string, id:string){
+        let state = this.resources[type + "/" + id];
+        state.active = structuredClone(state.staged);
+        state.staged.activation = {mode:null, requested_time:null, activation_time:null};
+        let resolved = this.onActivation(type, id, state.active);
+        if(resolved && typeof resolved == "object"){
+            state.active = resolved;
+        }
+    }
+}
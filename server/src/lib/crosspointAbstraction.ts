@@ -1,7 +1,11 @@
 import { SyncObject } from "./SyncServer/syncObject";
 import { LoggedError, SyncLog } from "./syncLog";
 import { error } from "console";
-import { NmosRegistryConnector } from "./nmosConnector";
+import { ConnectionVerification, NmosRegistryConnector } from "./nmosConnector";
+import { IsTaiTimestamp, UtcToTai } from "./functions";
+import { ChannelMapping, ChannelMappingState } from "./channelMapping";
+import { TransportParamsError } from "./transportConstraints";
+import { WebsocketSyncServer } from "./SyncServer/websocketSyncServer";
 
 import { setTimeout as sleep } from 'node:timers/promises'
 
@@ -14,11 +18,26 @@ const crypto = require('crypto');
 const fs = require("fs");
 const md5 = data => crypto.createHash('md5').update(data).digest("hex")
 
+// Type letters of crosspoint addresses ("<device>.<letter><flow>")
+export const FLOW_TYPE_LETTERS = {video:"v", audio:"a", data:"d", audiochannel:"c", websocket:"w", mqtt:"m", unknown:"u"};
+
+// "<device>" or "<device>.<letter><flow>", flowNum is null for a device address
+export function ParseFlowAddress(address:string):{device:string, type:string, flowNum:string|null}{
+    let parts = address.split(".");
+    if(parts.length != 2){
+        return {device:parts[0], type:"", flowNum:null};
+    }
+    let type = Object.keys(FLOW_TYPE_LETTERS).find((t)=>t != "unknown" && FLOW_TYPE_LETTERS[t] == parts[1][0]) || "unknown";
+    return {device:parts[0], type:type, flowNum:parts[1].slice(1)};
+}
+
  export class CrosspointAbstraction {
     public static instance: CrosspointAbstraction | null;
 
     public syncCrosspoint: SyncObject;
     crosspointState: CrosspointState = {devices:[]};
+    public syncMulticast: SyncObject;
+    multicastState: MulticastUsageState = {groups:[], duplicates:{}, reservations:[]};
 
     worker;
 
@@ -56,6 +75,7 @@ const md5 = data => crypto.createHash('md5').update(data).digest("hex")
             CrosspointAbstraction.instance = this;
         }
         this.syncCrosspoint = new SyncObject("crosspoint", this.crosspointState);
+        this.syncMulticast = new SyncObject("multicast", this.multicastState);
         this.update();
     }
 
@@ -96,15 +116,63 @@ const md5 = data => crypto.createHash('md5').update(data).digest("hex")
     }
 
     setMulticast(id:string, data:any){
-        return new Promise((resolve, reject) => {
+        return new Promise(async (resolve, reject) => {
             if(id.startsWith("nmos_")){
                 let nmosId = id.slice(5);
-                NmosRegistryConnector.instance.setFlowMulticast(nmosId,data);
+                try{
+                    await NmosRegistryConnector.instance.setFlowMulticast(nmosId,data);
+                }catch(e){
+                    reject({status:400, message:e.message, validation:this.getValidationDetail(e)});
+                    return;
+                }
             } 
             resolve({});
         });
     }
 
+    private workerRequests:{[requestId:number]:(response:any)=>void} = {};
+    private workerRequestId = 0;
+
+    // Request to the worker thread, resolves with its result, rejects with {status, message}
+    private workerRequest(type:string, data:any = {}){
+        return new Promise((resolve, reject) => {
+            let requestId = ++this.workerRequestId;
+            let timeout = setTimeout(()=>{
+                delete this.workerRequests[requestId];
+                reject({status:504, message:"No answer from worker thread."});
+            },10000);
+            this.workerRequests[requestId] = (response)=>{
+                clearTimeout(timeout);
+                delete this.workerRequests[requestId];
+                if(response.error){
+                    reject(response.error);
+                }else{
+                    resolve(response.result);
+                }
+            };
+            this.worker.postMessage(JSON.stringify({
+                workerRequest:{requestId:requestId, type:type, data:data}
+            }));
+        });
+    }
+
+    // Report of the multicast addresses the automatic configuration would give, nothing is changed
+    multicastDryRun(){
+        return this.workerRequest("multicastDryRun");
+    }
+
+    multicastReserve(data:any){
+        return this.workerRequest("multicastReserve", data);
+    }
+
+    multicastRelease(data:any){
+        return this.workerRequest("multicastRelease", data);
+    }
+
+    multicastReassign(data:any){
+        return this.workerRequest("multicastReassign", data);
+    }
+
     
     crosspointApi(data:any){
         return new Promise((resolve, reject) => {
@@ -135,7 +203,233 @@ const md5 = data => crypto.createHash('md5').update(data).digest("hex")
         });
     }
 
-    makeConnection(data:any){
+    // Lock (nobody may route) or protect (only the owner may route) a destination, mode "none" removes it.
+    // Locks of other users can only be changed by the admin groups (settings.locks.adminGroups).
+    setLock(data:any, user:string){
+        return new Promise(async (resolve, reject) => {
+            if(!["lock", "protect", "none"].includes(data.mode)){
+                reject({status:400, message:"Unknown lock mode: "+data.mode});
+                return;
+            }
+            let dst = this.getReceiverFlow(data.id);
+            if(!dst){
+                reject({status:404, message:"Destination not found"});
+                return;
+            }
+            if(dst.lock && dst.lock.user != user && !this.isLockAdmin(user)){
+                reject({status:403, message:"Destination is "+(dst.lock.mode == "lock" ? "locked" : "protected")+" by "+dst.lock.user});
+                return;
+            }
+
+            let lock:CrosspointLock|null = null;
+            if(data.mode != "none"){
+                lock = {mode:data.mode, user:user, time:Date.now()};
+            }
+            try{
+                let result = await this.workerRequest("setLock", {id:dst.id, lock:lock});
+                SyncLog.log("info", "crosspoint", "Receiver "+dst.id+(lock ? " "+lock.mode+"ed" : " unlocked")+" by "+user, {previous:dst.lock});
+                resolve(result);
+            }catch(e){
+                reject(e);
+            }
+        });
+    }
+
+    private isLockAdmin(user:string){
+        let groups = WebsocketSyncServer.getInstance()?.getUserGroups(user) || [];
+        return this.settings.locks.adminGroups.some((g)=>groups.includes(g));
+    }
+
+    // Lock which refuses a connection to dst, null if the user may route it
+    private getLockConflict(dst:CrosspointFlow, user:string, override:boolean):CrosspointLock|null{
+        if(!dst.lock){
+            return null;
+        }
+        if(override && this.isLockAdmin(user)){
+            return null;
+        }
+        if(dst.lock.mode == "protect" && dst.lock.user == user){
+            return null;
+        }
+        return dst.lock;
+    }
+
+    private getReceiverFlow(id:string):CrosspointFlow|null{
+        for(let dev of this.crosspointState.devices){
+            for(let type of Object.keys(dev.receivers)){
+                for( let flow of dev.receivers[type]){
+                    if(flow.id == id){
+                        return flow;
+                    }
+                }
+            }
+        }
+        return null;
+    }
+
+    private getSenderFlow(id:string):CrosspointFlow|null{
+        for(let dev of this.crosspointState.devices){
+            for(let type of Object.keys(dev.senders)){
+                for( let flow of dev.senders[type]){
+                    if(flow.id == id){
+                        return flow;
+                    }
+                }
+            }
+        }
+        return null;
+    }
+
+    // Device and flows of a flow id or an address as in makeConnection ("<device>", "<device>.<type><flow>")
+    findFlows(direction:"senders"|"receivers", address:string):{device:CrosspointDevice|null, flows:CrosspointFlow[]}{
+        for(let dev of this.crosspointState.devices){
+            for(let type of Object.keys(dev[direction])){
+                let flow = dev[direction][type].find((f)=>f.id == address);
+                if(flow){
+                    return {device:dev, flows:[flow]};
+                }
+            }
+        }
+
+        let {device, type:flowType, flowNum} = ParseFlowAddress(address);
+        for(let dev of this.crosspointState.devices){
+            if(String(dev.num) == device || dev.name == device || dev.alias == device){
+                let flows = [];
+                for(let type of Object.keys(dev[direction])){
+                    // audio channels are only selected when addressed explicitly
+                    if(type == flowType || (flowNum == null && type != "audiochannel")){
+                        flows.push(...dev[direction][type].filter((f)=>flowNum == null || String(f.num) == flowNum));
+                    }
+                }
+                return {device:dev, flows:flows};
+            }
+        }
+        return {device:null, flows:[]};
+    }
+
+    // Virtual source devices, senders that follow a real sender. Receivers routed to them are re-patched when the mapping changes.
+    virtualSourceCreate(data:any){
+        let types = Array.isArray(data.types) ? data.types : ["video", "audio"];
+        if(typeof data.name != "string" || data.name.trim() == ""){
+            return Promise.reject({status:400, message:"Name missing."});
+        }
+        let invalid = types.find((t)=>!["video", "audio", "data", "websocket", "mqtt"].includes(t));
+        if(invalid !== undefined || types.length == 0){
+            return Promise.reject({status:400, message:"Invalid flow type: "+invalid});
+        }
+        return this.workerRequest("virtualCreate", {name:data.name.trim(), types:types});
+    }
+
+    virtualSourceDelete(data:any){
+        let found = this.findFlows("senders", data.source+"");
+        if(!found.device || !found.device.virtual){
+            return Promise.reject({status:404, message:"Virtual source not found"});
+        }
+        return this.workerRequest("virtualDelete", {id:found.device.id});
+    }
+
+    // source: virtual device or flow, target: real device or sender ("" unmaps). Flows of a device are mapped by type and order.
+    virtualSourceMap(data:any, user:string = "__noAuth"){
+        return new Promise(async (resolve, reject) => {
+            let activation:CrosspointActivation;
+            try{
+                activation = this.parseActivation(data.activation);
+            }catch(e){
+                reject({status:400, message:e.message});
+                return;
+            }
+            let virtual = this.findFlows("senders", data.source+"");
+            if(!virtual.device || !virtual.device.virtual || virtual.flows.length == 0){
+                reject({status:404, message:"Virtual source not found"});
+                return;
+            }
+
+            let targets:{[flowId:string]:string} = {};
+            if(data.target == "" || data.target == null){
+                virtual.flows.forEach((f)=>targets[f.id] = "");
+            }else{
+                let target = this.findFlows("senders", data.target+"");
+                if(target.flows.length == 0){
+                    reject({status:404, message:"Target not found: "+data.target});
+                    return;
+                }
+                if(target.device.virtual){
+                    reject({status:400, message:"A virtual source can not follow another virtual source."});
+                    return;
+                }
+                let byType = (flows:CrosspointFlow[], type:string)=>flows.filter((f)=>f.type == type).sort((a,b)=>a.num - b.num);
+                for(let flow of virtual.flows){
+                    if(virtual.flows.length == 1 && target.flows.length == 1){
+                        if(target.flows[0].type != flow.type){
+                            reject({status:400, message:"Target is not a "+flow.type+" sender."});
+                            return;
+                        }
+                        targets[flow.id] = target.flows[0].id;
+                        break;
+                    }
+                    let index = byType(virtual.device.senders[flow.type], flow.type).findIndex((f)=>f.id == flow.id);
+                    let match = byType(target.flows, flow.type)[index];
+                    targets[flow.id] = match ? match.id : "";
+                }
+            }
+
+            let result:any;
+            try{
+                result = await this.workerRequest("virtualMap", {id:virtual.device.id, targets:targets});
+            }catch(e){
+                reject(e);
+                return;
+            }
+
+            // Re-patch the receivers following the changed flows, unmapped flows leave them as they are.
+            // Locks and receiver capabilities are checked like in makeConnection.
+            let force = (data.force === true);
+            let override = (data.override === true);
+            let list = [];
+            for(let change of result.changes){
+                let src = this.getSenderFlow(change.target);
+                if(!src){
+                    continue;
+                }
+                change.receivers.forEach((id)=>{
+                    let dst = this.getReceiverFlow(id);
+                    if(dst){
+                        list.push({src:src, dst:dst, issues:this.getCapabilityIssues(src, dst), lock:this.getLockConflict(dst, user, override)});
+                    }
+                });
+            }
+            if(list.length > 0){
+                SyncLog.log("info", "connect_crosspoint", "Virtual source "+virtual.device.alias+" changed, re-patching "+list.length+" receivers.", result.changes);
+            }
+            let connections = [];
+            list = this.refuseConnections(list, user, force, connections);
+            connections.push(...await this.executeConnections(list, activation));
+            resolve({...result, connections:connections});
+        });
+    }
+
+    // Receivers routed to a virtual source follow it, any other route ends that
+    private updateVirtualRoutes(responses:any[]){
+        let routes = {};
+        responses.filter((r)=>r.dst && (r.status == "ok" || r.status == "ok_dis")).forEach((r)=>{
+            routes[r.dst.id] = (r.src && r.src.id.startsWith("virt_")) ? r.src.id : null;
+        });
+        if(Object.keys(routes).length > 0){
+            this.workerRequest("virtualRoutes", {routes:routes}).catch(()=>{});
+        }
+    }
+
+    // Real sender of a virtual sender
+    private getVirtualTarget(src:CrosspointFlow){
+        let target = src.virtualTarget ? this.getSenderFlow(src.virtualTarget) : null;
+        if(!target){
+            let id = SyncLog.log("warning", "connect_crosspoint", "Virtual source "+src.id+" is not mapped to a sender.");
+            throw new LoggedError("Virtual source is not mapped.", id);
+        }
+        return target;
+    }
+
+    makeConnection(data:any, user:string = "__noAuth"){
         return new Promise(async(resolve, reject) => {
             // Debug logging to track makeConnection calls
             console.log("[DEBUG] makeConnection called with:", JSON.stringify(data, null, 2));
@@ -158,6 +452,18 @@ const md5 = data => crypto.createHash('md5').update(data).digest("hex")
                 prepare = true;
                 preview = false;
             }
+            // route even if the receiver capabilities do not match the sender
+            let force = (data.hasOwnProperty("force") && data.force === true);
+            // admin groups route locked and protected destinations
+            let override = (data.hasOwnProperty("override") && data.override === true);
+
+            let activation:CrosspointActivation;
+            try{
+                activation = this.parseActivation(data.activation);
+            }catch(e){
+                reject({status:400, message:e.message});
+                return;
+            }
 
 
             let connections = [];
@@ -177,102 +483,20 @@ const md5 = data => crypto.createHash('md5').update(data).digest("hex")
                 let srcFlows:any[] = [];
                 let dstFlows:any[] = [];
 
-                // Select all source Flows
-                let sourceDevice = null;
-                let sourceDeviceOnly = false;
-                let sourceFlowType = "";
-                let sourceFlow = null;
-                let sourceParts = source.split(".");
-                let srcDev = null
-                sourceDevice = sourceParts[0]
-                if(sourceParts.length == 2){
-                    sourceFlow = sourceParts[1].slice(1);
-                    switch(sourceParts[1][0]){
-                        case "v":
-                            sourceFlowType = "video"
-                            break;
-                        case "a":
-                            sourceFlowType = "audio"
-                            break;
-                        case "d":
-                            sourceFlowType = "data"
-                            break;
-                        default:
-                            sourceFlowType = "unknown"
-                    }
-                }else{
-                    sourceDeviceOnly = true;
-                }
-
-                console.log("[DEBUG] Looking for source device:", {sourceDevice, sourceFlowType, sourceFlow, sourceDeviceOnly});
-                console.log("[DEBUG] Available devices:", this.crosspointState.devices.map(d => ({num: d.num, name: d.name, alias: d.alias})));
-                
-                for(let dev of this.crosspointState.devices){
-                    // Support name-based addressing: numeric ID, device name, or alias
-                    if(dev.num == sourceDevice || dev.name == sourceDevice || dev.alias == sourceDevice){
-                        console.log("[DEBUG] Found matching source device:", {num: dev.num, name: dev.name, alias: dev.alias});
-                        srcDev = dev;
-                        for(let type in dev.senders){
-                            if(type == sourceFlowType || sourceDeviceOnly){
-                                for(let flow of dev.senders[type]){
-                                    if(flow.num == sourceFlow || sourceDeviceOnly){
-                                        srcFlows.push(flow);
-                                        console.log("[DEBUG] Added source flow:", {type, flowNum: flow.num, flowId: flow.id});
-                                    }
-                                }
-                            }
-                        }
-                    }
+                // Select all source Flows, addresses are resolved the same way as in findFlows (salvos)
+                let srcDev = null;
+                if(!disconnect){
+                    let srcFound = this.findFlows("senders", source);
+                    srcDev = srcFound.device;
+                    srcFlows = srcFound.flows;
                 }
                 console.log("[DEBUG] Source device search complete:", {srcDev: srcDev ? {num: srcDev.num, name: srcDev.name} : null, srcFlowsCount: srcFlows.length});
 
 
                 // Select all destination Flows
-                let destinationDevice = null;
-                let destinationDeviceOnly = false;
-                let destinationFlowType = "";
-                let destinationFlow = null;
-                let destinationParts = destination.split(".");
-                let dstDev = null;
-                destinationDevice = destinationParts[0]
-                if(destinationParts.length == 2){
-                    destinationFlow = destinationParts[1].slice(1);
-                    switch(destinationParts[1][0]){
-                        case "v":
-                            destinationFlowType = "video"
-                            break;
-                        case "a":
-                            destinationFlowType = "audio"
-                            break;
-                        case "d":
-                            destinationFlowType = "data"
-                            break;
-                        default:
-                            destinationFlowType = "unknown"
-                    }
-                }else{
-                    destinationDeviceOnly = true;
-                }
-
-                console.log("[DEBUG] Looking for destination device:", {destinationDevice, destinationFlowType, destinationFlow, destinationDeviceOnly});
-                
-                for(let dev of this.crosspointState.devices){
-                    // Support name-based addressing: numeric ID, device name, or alias
-                    if(dev.num == destinationDevice || dev.name == destinationDevice || dev.alias == destinationDevice){
-                        console.log("[DEBUG] Found matching destination device:", {num: dev.num, name: dev.name, alias: dev.alias});
-                        dstDev = dev;
-                        for(let type in dev.receivers){
-                            if(type == destinationFlowType || destinationDeviceOnly){
-                                for(let flow of dev.receivers[type]){
-                                    if(flow.num == destinationFlow || destinationDeviceOnly){
-                                        dstFlows.push(flow);
-                                        console.log("[DEBUG] Added destination flow:", {type, flowNum: flow.num, flowId: flow.id});
-                                    }
-                                }
-                            }
-                        }
-                    }
-                }
+                let dstFound = this.findFlows("receivers", destination);
+                let dstDev = dstFound.device;
+                dstFlows = dstFound.flows;
                 console.log("[DEBUG] Destination device search complete:", {dstDev: dstDev ? {num: dstDev.num, name: dstDev.name} : null, dstFlowsCount: dstFlows.length});
 
 
@@ -296,23 +520,21 @@ const md5 = data => crypto.createHash('md5').update(data).digest("hex")
                         let usedSources = [];
 
                         for(let dstFlow of dstFlows){
-                            let connection = {src:null,srcDev:srcDev, dst:dstFlow,dstDev:dstDev}
+                            let connection = {src:null,srcDev:srcDev, dst:dstFlow,dstDev:dstDev, issues:[], lock:this.getLockConflict(dstFlow, user, override)}
+                            let incompatible = null;
 
                             if(disconnect){
                                 // src : null
                             }else{
                                 for(let srcFlow of srcFlows){
-                                    // TODO websocket/mqtt flwos interop
+                                    // IS-07 event flows (websocket, mqtt) only connect to the same transport
                                     let connect = false;
                                     if(dstFlow.type == "audio" && srcFlow.type == "audio"){
-                                        // TODO check for capabilities
                                         connect = true;
                                     }else if(dstFlow.type == "video" && srcFlow.type == "video"){
-                                        // TODO check for capabilities
                                         connect = true;
                                     }else if(dstFlow.type == "data"){
                                         if(srcFlow.type == "data"){
-                                            // TODO check for capabilities
                                             connect = true;
                                         }
                                     }else{
@@ -321,6 +543,17 @@ const md5 = data => crypto.createHash('md5').update(data).digest("hex")
                                         }
                                     }
 
+                                    // Receiver capabilities, incompatible senders are only used if there is no other match
+                                    if(connect){
+                                        let issues = this.getCapabilityIssues(srcFlow, dstFlow);
+                                        if(issues.length > 0){
+                                            if(incompatible == null || incompatible.src.num > srcFlow.num){
+                                                incompatible = {src:srcFlow, issues:issues};
+                                            }
+                                            connect = force;
+                                        }
+                                    }
+
                                     if(connect && !usedSources.includes(srcFlow.id)){
                                         if(connection.src == null){
                                             connection.src = srcFlow;
@@ -339,6 +572,13 @@ const md5 = data => crypto.createHash('md5').update(data).digest("hex")
                                 
                             }
                             }
+
+                            if(connection.src == null && incompatible != null){
+                                connection.src = incompatible.src;
+                                connection.issues = incompatible.issues;
+                            }else if(connection.src != null && force){
+                                connection.issues = this.getCapabilityIssues(connection.src, dstFlow);
+                            }
  
                             connections.push(connection);
                         }
@@ -351,51 +591,27 @@ const md5 = data => crypto.createHash('md5').update(data).digest("hex")
             if(preview){
                 let connectionPreviews = [];
                 connections.forEach((c)=>{
-                    connectionPreviews.push({src:(c.src?c.src.id:null),dst:c.dst.id, status:"preview"});
+                    connectionPreviews.push({src:(c.src?c.src.id:null),dst:c.dst.id, status:this.getPreviewStatus(c, force, "preview"), issues:c.issues, lock:c.lock});
                 });
                 resolve({connections:connectionPreviews});
             }else if(prepare){
                 let connectionPreviews = [];
                 connections.forEach((c)=>{
-                    connectionPreviews.push({src:c.src,dst:c.dst,srcDev:(c.src ? c.srcDev : null), dstDev:c.dstDev, status:"prepare"});
+                    connectionPreviews.push({src:c.src,dst:c.dst,srcDev:(c.src ? c.srcDev : null), dstDev:c.dstDev, status:this.getPreviewStatus(c, force, "prepare"), issues:c.issues, lock:c.lock});
                 });
                 resolve({connections:connectionPreviews});
             }else{
-                let connectionPromises = [];
-                let disconnectPromises = [];
                 let connectionResponses = [];
 
-                // Connects
-                connections.forEach((c)=>{
-                    if(c.src){
-                        connectionPromises.push(this.executeConnection(c.src,c.dst));
-                    }
-                });
-                
-                let results = await Promise.allSettled(connectionPromises);
-                results.forEach((r)=>{
-                    if(r.status == "fulfilled"){
-                        connectionResponses.push(r.value);
-                    }else{
-                        connectionResponses.push(r.reason);
-                    }
-                })
+                connections = this.refuseConnections(connections, user, force, connectionResponses);
 
+                // Connects
+                connectionResponses.push(...await this.executeConnections(connections.filter((c)=>c.src), activation));
 
                 // Dsiconnects
-                connections.forEach((c)=>{
-                    if(!c.src){
-                        disconnectPromises.push(this.executeConnection(c.src,c.dst));
-                    }
-                });
-                results = await Promise.allSettled(disconnectPromises);
-                results.forEach((r)=>{
-                    if(r.status == "fulfilled"){
-                        connectionResponses.push(r.value);
-                    }else{
-                        connectionResponses.push(r.reason);
-                    }
-                })
+                connectionResponses.push(...await this.executeConnections(connections.filter((c)=>!c.src), activation));
+
+                this.updateVirtualRoutes(connectionResponses);
 
                 resolve({connections:connectionResponses});
             }
@@ -419,53 +635,130 @@ const md5 = data => crypto.createHash('md5').update(data).digest("hex")
     }
 
 
-    executeConnection(src:CrosspointFlow,dst:CrosspointFlow){
+    // Locked destinations and, without force, incompatible receivers get a response instead of being connected.
+    // Returns the connections to execute.
+    private refuseConnections(connections:{src:CrosspointFlow|null, dst:CrosspointFlow, issues:string[], lock:CrosspointLock|null}[], user:string, force:boolean, connectionResponses:any[]){
+        // Locked and protected destinations
+        connections.filter((c)=>c.lock).forEach((c)=>{
+            let message = "Destination is "+(c.lock.mode == "lock" ? "locked" : "protected")+" by "+c.lock.user;
+            let id = SyncLog.log("warning", "connect_crosspoint", "Receiver "+c.dst.id+": "+message+", connection refused.", {user:user});
+            connectionResponses.push({src:c.src, dst:c.dst, status:"locked", detail:{message:message, log:id, lock:c.lock}});
+        });
+        connections = connections.filter((c)=>!c.lock);
+        connections.filter((c)=>this.getLockConflict(c.dst, user, false)).forEach((c)=>{
+            SyncLog.log("warning", "connect_crosspoint", "Lock of receiver "+c.dst.id+" overridden by "+user, {lock:c.dst.lock});
+        });
+
+        // Incompatible
+        connections.filter((c)=>c.issues.length > 0 && !force).forEach((c)=>{
+            let id = SyncLog.log("warning", "connect_crosspoint", "Receiver "+c.dst.id+" can not handle sender "+c.src.id, {issues:c.issues});
+            connectionResponses.push({src:c.src, dst:c.dst, status:"incompatible", detail:{message:c.issues.join("; "), log:id, issues:c.issues}});
+        });
+        return connections.filter((c)=>c.issues.length == 0 || force);
+    }
+
+    private getPreviewStatus(connection:any, force:boolean, status:string){
+        if(connection.lock){
+            return "locked";
+        }
+        if(connection.issues.length > 0 && !force){
+            return "incompatible";
+        }
+        return status;
+    }
+
+    // BCP-004-01 receiver capabilities, only NMOS senders and receivers announce them
+    getCapabilityIssues(src:CrosspointFlow, dst:CrosspointFlow):string[]{
+        if(src && src.id.startsWith("virt_")){
+            src = this.getSenderFlow(src.virtualTarget);
+        }
+        if(src && dst && src.id.startsWith("nmos_") && dst.id.startsWith("nmos_")){
+            return NmosRegistryConnector.instance.getReceiverCapsIssues(dst.id.slice(5), src.id.slice(5));
+        }
+        return [];
+    }
+
+    parseActivation(request:any):CrosspointActivation{
+        if(!request || !request.mode || request.mode == "immediate"){
+            return {mode:"activate_immediate", requestedTime:null};
+        }
+
+        if(request.mode == "absolute"){
+            // TAI timestamp, ISO date string or unix time in milliseconds
+            if(IsTaiTimestamp(request.time)){
+                return {mode:"activate_scheduled_absolute", requestedTime:request.time};
+            }
+            let time = (typeof request.time == "number") ? request.time : Date.parse(request.time);
+            if(isNaN(time)){
+                throw new Error("Invalid absolute activation time: "+request.time);
+            }
+            return {mode:"activate_scheduled_absolute", requestedTime:UtcToTai(time)};
+        }
+
+        if(request.mode == "relative"){
+            // TAI offset or seconds
+            if(IsTaiTimestamp(request.time)){
+                return {mode:"activate_scheduled_relative", requestedTime:request.time};
+            }
+            let seconds = Number(request.time);
+            if(isNaN(seconds) || seconds < 0){
+                throw new Error("Invalid relative activation time: "+request.time);
+            }
+            return {mode:"activate_scheduled_relative", requestedTime:Math.floor(seconds) + ":" + Math.round((seconds % 1) * 1000000000)};
+        }
+
+        throw new Error("Unknown activation mode: "+request.mode);
+    }
+
+    cancelActivation(id:string, user:string = "__noAuth", override:boolean = false){
+        return new Promise(async (resolve, reject) => {
+            if(typeof id != "string"){
+                reject({status:400, message:"Destination missing"});
+                return;
+            }
+            let dst = this.getReceiverFlow(id);
+            let lock = dst ? this.getLockConflict(dst, user, override) : null;
+            if(lock){
+                let message = "Destination is "+(lock.mode == "lock" ? "locked" : "protected")+" by "+lock.user;
+                SyncLog.log("warning", "connect_crosspoint", "Receiver "+id+": "+message+", cancel refused.", {user:user});
+                reject({status:403, message:message, lock:lock});
+                return;
+            }
+            if(id.startsWith("nmos_")){
+                let nmosId = id.slice(5);
+                try{
+                    await NmosRegistryConnector.instance.cancelScheduledActivation(nmosId);
+                    resolve({});
+                }catch(e){
+                    reject({status:400, message:e.message});
+                }
+            }else{
+                reject({status:404, message:"Destination not found"});
+            }
+        });
+    }
+
+
+    executeConnection(src:CrosspointFlow,dst:CrosspointFlow, activation:CrosspointActivation = {mode:"activate_immediate", requestedTime:null}){
         return new Promise(async(resolve, reject) => {
             if(dst){
                 let senderInfo:CrosspointConnectionSenderInfo|null = null;
-                if(src){
-                    SyncLog.log("info", "connect_crosspoint", "Make Connect: Receiver "+ dst.id + "    <   Sender " + src.id)
-                    try{
-                        if(src.id.startsWith("nmos_")){
-                            let nmosId = src.id.slice(5);
-                            senderInfo = await NmosRegistryConnector.instance.connectionGetSenderInfo(nmosId);
-                        }
-                        
-                    }catch(e){
-                        reject({src:src,dst:dst,status:"failed sender info"});
-                    }
-                }else{
-                    SyncLog.log("info", "connect_crosspoint", "Make Connect: Receiver "+ dst.id + "    <   Disconnect")
-                    senderInfo = {
-                        senderId: "disconnect",
-                        interfaces:[],
-                        manifestFile:"",
-                        active:false,
-                        error:"",
-                        transport:""
-                    }
+                try{
+                    senderInfo = await this.getConnectionSenderInfo(src, dst);
+                }catch(e){
+                    reject(this.connectionFailure(src, dst, e));
+                    return;
                 }
 
-                // TODO handle inactive Sender
-
 
                     
                 if(dst.id.startsWith("nmos_")){
                     try{
                         let nmosId = dst.id.slice(5);
-                        let log = await NmosRegistryConnector.instance.makeConnection(nmosId,senderInfo);
-                        if(senderInfo.senderId == "disconnect"){
-                            resolve({src:src,dst:dst,status:"ok_dis", detail:{message:"Success",log:""+log}});
-                        }else{
-                            resolve({src:src,dst:dst,status:"ok", detail:{message:"Success",log:""+log}});
-                        }
+                        let result = await NmosRegistryConnector.instance.makeConnection(nmosId,senderInfo,activation);
+                        resolve(this.connectionSuccess(src, dst, senderInfo.senderId == "disconnect", activation, result.log, result.verification, senderInfo.inactiveSender));
                     }catch(e){
-                        if(e instanceof LoggedError){
-                            reject({src:src,dst:dst,status:"failed", detail:{message:e.message, log:e.logId}});
-                        }else{
-                            reject({src:src,dst:dst,status:"failed", detail:{message:e.message, log:""}});
-                        }
-                        
+                        reject(this.connectionFailure(src, dst, e));
                     }
                 }
             }else{
@@ -475,6 +768,166 @@ const md5 = data => crypto.createHash('md5').update(data).digest("hex")
         });
     }
 
+    // Executes a list of connections, receivers on the same node are patched together if the node supports the IS-05 bulk API
+    async executeConnections(list:{src:CrosspointFlow, dst:CrosspointFlow}[], activation:CrosspointActivation = {mode:"activate_immediate", requestedTime:null}){
+        let connectionResponses = [];
+        let nmosConnections = [];
+        let channelConnections = list.filter((c)=>c.dst && c.dst.id.startsWith("cm_"));
+        list = list.filter((c)=>!channelConnections.includes(c));
+        let senderInfoCache:SenderInfoCache = {};
+
+        let results = await Promise.allSettled(list.map(async (c)=>{
+            if(!c.dst || !c.dst.id.startsWith("nmos_")){
+                return this.executeConnection(c.src, c.dst, activation);
+            }
+            try{
+                let senderInfo = await this.getConnectionSenderInfo(c.src, c.dst, senderInfoCache);
+                nmosConnections.push({src:c.src, dst:c.dst, senderInfo:senderInfo});
+                return null;
+            }catch(e){
+                throw this.connectionFailure(c.src, c.dst, e);
+            }
+        }));
+        results.forEach((r)=>{
+            if(r.status == "fulfilled"){
+                if(r.value){
+                    connectionResponses.push(r.value);
+                }
+            }else{
+                connectionResponses.push(r.reason);
+            }
+        });
+
+        let nmosResults = await NmosRegistryConnector.instance.makeConnections(nmosConnections.map((c)=>{
+            return {receiverId:c.dst.id.slice(5), senderInfo:c.senderInfo};
+        }), activation);
+
+        nmosResults.forEach((r, index)=>{
+            let c = nmosConnections[index];
+            if(r.error){
+                connectionResponses.push(this.connectionFailure(c.src, c.dst, r.error));
+            }else{
+                connectionResponses.push(this.connectionSuccess(c.src, c.dst, c.senderInfo.senderId == "disconnect", activation, r.log, r.verification, c.senderInfo.inactiveSender));
+            }
+        });
+
+        if(channelConnections.length > 0){
+            let channelResults = await ChannelMapping.instance.makeConnections(channelConnections.map((c)=>{
+                return {src:(c.src ? c.src.id : null), dst:c.dst.id};
+            }), activation);
+
+            channelResults.forEach((r, index)=>{
+                let c = channelConnections[index];
+                if(r.error){
+                    connectionResponses.push(this.connectionFailure(c.src, c.dst, r.error));
+                }else{
+                    connectionResponses.push(this.connectionSuccess(c.src, c.dst, !c.src, activation, r.log));
+                }
+            });
+        }
+
+        return connectionResponses;
+    }
+
+    // With a cache, the sender info (and the inactive sender policy) is resolved once per sender for all its destinations
+    private async getConnectionSenderInfo(src:CrosspointFlow|null, dst:CrosspointFlow, cache:SenderInfoCache = {}):Promise<CrosspointConnectionSenderInfo|null>{
+        if(src && src.id.startsWith("virt_")){
+            src = this.getVirtualTarget(src);
+        }
+        if(src){
+            SyncLog.log("info", "connect_crosspoint", "Make Connect: Receiver "+ dst.id + "    <   Sender " + src.id)
+            if(src.id.startsWith("nmos_")){
+                if(!cache.hasOwnProperty(src.id)){
+                    cache[src.id] = this.loadSenderInfo(src);
+                }
+                return {...await cache[src.id]};
+            }
+            return null;
+        }
+        SyncLog.log("info", "connect_crosspoint", "Make Connect: Receiver "+ dst.id + "    <   Disconnect")
+        return {
+            senderId: "disconnect",
+            interfaces:[],
+            manifestFile:"",
+            active:false,
+            error:"",
+            transport:"",
+            transportParams:[]
+        };
+    }
+
+    private async loadSenderInfo(src:CrosspointFlow){
+        let info = await NmosRegistryConnector.instance.connectionGetSenderInfo(src.id.slice(5));
+        if(!info.active){
+            info = await this.applyInactiveSenderPolicy(src, info);
+        }
+        return info;
+    }
+
+    // Senders with subscription.active false are refused, connected with a warning or enabled first (settings.inactiveSenders.policy)
+    private async applyInactiveSenderPolicy(src:CrosspointFlow, info:CrosspointConnectionSenderInfo){
+        let nmosId = src.id.slice(5);
+        if(this.settings.inactiveSenders.policy == "refuse"){
+            let id = SyncLog.log("warning", "connect_crosspoint", "Sender "+src.id+" is inactive, connection refused.");
+            let error:any = new LoggedError("Sender is inactive.", id);
+            error.inactiveSender = "refused";
+            throw error;
+        }
+        if(this.settings.inactiveSenders.policy == "enable"){
+            SyncLog.log("info", "connect_crosspoint", "Sender "+src.id+" is inactive, enabling it before connecting.");
+            try{
+                info = await NmosRegistryConnector.instance.enableSenderAndWait(nmosId, info);
+            }catch(e){
+                e.inactiveSender = "enable_failed";
+                throw e;
+            }
+            info.inactiveSender = "enabled";
+            return info;
+        }
+        SyncLog.log("warning", "connect_crosspoint", "Sender "+src.id+" is inactive.");
+        info.inactiveSender = "warned";
+        return info;
+    }
+
+    private connectionSuccess(src:CrosspointFlow, dst:CrosspointFlow, disconnect:boolean, activation:CrosspointActivation, log:any, verification:ConnectionVerification|null = null, inactiveSender:string|null = null){
+        let detail:any = {message:"Success",log:""+log};
+        if(activation.mode != "activate_immediate"){
+            detail = {message:"Scheduled",log:""+log, activation:activation};
+        }
+        if(verification && verification.status == "mismatch"){
+            detail.message = "Mismatch: " + verification.issues.join("; ");
+        }
+        let response:any = {src:src,dst:dst,status:(disconnect ? "ok_dis" : "ok"), detail:detail};
+        if(verification){
+            response.verification = verification.status;
+        }
+        if(inactiveSender){
+            response.inactiveSender = inactiveSender;
+        }
+        return response;
+    }
+
+    private connectionFailure(src:CrosspointFlow, dst:CrosspointFlow, e:any){
+        let response:any = {src:src,dst:dst,status:"failed", detail:{message:e.message, log:""}};
+        if(e instanceof LoggedError){
+            response.detail.log = e.logId;
+        }
+        if(e && e.inactiveSender){
+            response.inactiveSender = e.inactiveSender;
+        }
+        if(e instanceof TransportParamsError){
+            response.detail.validation = this.getValidationDetail(e);
+        }
+        return response;
+    }
+
+    private getValidationDetail(e:any){
+        if(e instanceof TransportParamsError){
+            return {leg:e.leg, parameter:e.parameter, value:e.value, constraint:e.constraint};
+        }
+        return null;
+    }
+
 
     reconnectOnChangesFromNmos( senderId:string ){
         if(!this.settings.reconnectOnSdpChanges){
@@ -497,7 +950,9 @@ const md5 = data => crypto.createHash('md5').update(data).digest("hex")
             for(let dev of this.crosspointState.devices){
                 for(let type of Object.keys(dev.receivers)){
                     for( let flow of dev.receivers[type]){
-                        if(flow.connectedFlow == nmos_senderId){
+                        // receivers following a virtual source show the virtual flow as connected
+                        let connected = flow.connectedFlow.startsWith("virt_") ? this.getSenderFlow(flow.connectedFlow)?.virtualTarget : flow.connectedFlow;
+                        if(connected == nmos_senderId){
                            let dst = flow;
                            this.executeConnection(src,dst).then(()=>{}).catch(()=>{});
                            SyncLog.info("crosspoint","Executed reconnection on SDP Changed: " + src.id +" > "+dst.id);
@@ -513,9 +968,17 @@ const md5 = data => crypto.createHash('md5').update(data).digest("hex")
         this.update();
     }
 
+    channelMappingState : ChannelMappingState = {devices:{}};
+
+    updateFromChannelMapping(state:ChannelMappingState){
+        this.channelMappingState = state;
+        this.update();
+    }
+
     update(){
         this.worker.postMessage(JSON.stringify({
             nmosState:this.nmosState,
+            channelMapping:this.channelMappingState
         }))
     }
 
@@ -530,7 +993,20 @@ const md5 = data => crypto.createHash('md5').update(data).digest("hex")
         }
 
         if(data.hasOwnProperty("nmosSetMulticast")){
-            NmosRegistryConnector.instance.setFlowMulticast(data.nmosSetMulticast.nmosId,data.nmosSetMulticast.multicast);
+            // validation errors are logged
+            NmosRegistryConnector.instance.setFlowMulticast(data.nmosSetMulticast.nmosId,data.nmosSetMulticast.multicast).catch(()=>{});
+        }
+
+        if(data.hasOwnProperty("multicastUsage")){
+            this.multicastState = data.multicastUsage;
+            this.syncMulticast.setState(this.multicastState);
+        }
+
+        if(data.hasOwnProperty("workerResponse")){
+            let request = this.workerRequests[data.workerResponse.requestId];
+            if(request){
+                request(data.workerResponse);
+            }
         }
     }
 
@@ -560,6 +1036,7 @@ export interface CrosspointFlow {
     id:string,
     order : number,
     available:boolean,
+    stale:boolean,
     active:boolean,
     num:number,
     dynamic:boolean,
@@ -567,6 +1044,8 @@ export interface CrosspointFlow {
 
     alias:string,
     hidden:boolean,
+    lock:CrosspointLock|null,
+    virtualTarget:string,
 
     connectedFlow:string,
 
@@ -582,16 +1061,37 @@ export interface CrosspointFlow {
 
 
 
+export interface CrosspointLock {
+    mode:"lock" | "protect",
+    user:string,
+    time:number
+}
+
+export interface VirtualSourceFlow {
+    id:string,
+    name:string,
+    type:"video" | "audio" | "data" | "mqtt" | "websocket",
+    target:string
+}
+
+export interface VirtualSourceDevice {
+    id:string,
+    name:string,
+    flows:VirtualSourceFlow[]
+}
+
 export interface CrosspointDevice {
     id:string,
     order:number,
     available:boolean,
+    stale:boolean,
     num:number,
     dynamic:boolean,
     name:string,
     ip:string,
     alias:string,
     hidden:boolean,
+    virtual:boolean,
     senderIds:string[],
     receiverIds:string[],
     connectedFlows:string[],
@@ -630,13 +1130,24 @@ export interface CrosspointShadowFlow {
     channelNumber: number,
 };
 
+export interface CrosspointActivation {
+    mode:"activate_immediate" | "activate_scheduled_absolute" | "activate_scheduled_relative",
+    requestedTime:string|null
+}
+
 export interface CrosspointConnectionSenderInfo {
     senderId:string,
     manifestFile:string,
     interfaces:any[],
     active:boolean,
     error:string,
-    transport:string
+    transport:string,
+    transportParams:any[],
+    inactiveSender?:"warned"|"enabled"
+}
+
+interface SenderInfoCache {
+    [flowId:string]:Promise<CrosspointConnectionSenderInfo>
 }
 
 export interface CrosspointShadowDevice {
@@ -664,6 +1175,25 @@ export interface CrosspointShadowDevice {
     },
     
   }
+export interface MulticastGroupUsage {
+    multicast:string,
+    flowId:string,
+    label:string,
+    leg:number,
+    rangeType:string|null,
+    range:string|null,
+    inRange:boolean,
+    reserved:boolean,
+    reservedBy:string|null,
+    duplicate:boolean
+}
+
+export interface MulticastUsageState {
+    groups:MulticastGroupUsage[],
+    duplicates:{ [multicast:string]:string[] },
+    reservations:{id:string, leg:number, multicast:string, used:boolean}[]
+}
+
 export interface CrosspointShadowState {
     devices: {
         [name: string]: CrosspointShadowDevice
@@ -1,8 +1,10 @@
-import { CrosspointDevice, CrosspointFlow, CrosspointShadowState, CrosspointState, CrosspointShadowDevice } from "./crosspointAbstraction";
-import { ComplexCompare, ShortenNames } from "./functions";
+import { CrosspointDevice, CrosspointFlow, CrosspointLock, CrosspointShadowState, CrosspointState, CrosspointShadowDevice, MulticastUsageState, VirtualSourceDevice, VirtualSourceFlow } from "./crosspointAbstraction";
+import { ChannelMappingFlowId, ComplexCompare, IpInSubnet, IpToNumber, ShortenNames } from "./functions";
+import { ChannelMappingState } from "./channelMapping";
 
 import { BitrateCalculator } from "./bitrateHelper/BitrateCalculator"
 import { parseSettings } from "./parseSettings";
+import { AllocateMulticastAddress, GetMulticastRange, GetMulticastRangeType, MulticastAllocationError, MulticastPolicy } from "./multicastAllocation";
 
 const crypto = require('crypto');
 const md5 = data => crypto.createHash('md5').update(data).digest("hex")
@@ -19,8 +21,13 @@ class CrosspointUpdateThread{
     crosspointState: CrosspointState = {devices:[]};
     crosspointShadow: CrosspointShadowState = {devices:{}};
     nmosState : any = null;
+    channelMapping : ChannelMappingState = {devices:{}};
     crosspointAlias = {};
     crosspointHidden = {};
+    crosspointLocks:{[flowId:string]:CrosspointLock} = {};
+    // virtual source devices and the receivers following a virtual source (receiver flow id > virtual flow id)
+    virtualSources:{[devId:string]:VirtualSourceDevice} = {};
+    virtualRoutes:{[flowId:string]:string} = {};
     nextDeviceNum :number = 1;
 
     informMulticast = true;
@@ -86,6 +93,32 @@ class CrosspointUpdateThread{
         }
 
 
+        try {
+            let rawFile = fs.readFileSync("./state/locks.json");
+            this.crosspointLocks = JSON.parse(rawFile);
+        } catch (e) {
+            parentPort.postMessage(JSON.stringify({
+                log:{severity:"warning", topic:"Crosspoint Settings", text:"Error while reading file: ./state/locks.json", raw:null}
+            }));
+            parentPort.postMessage(JSON.stringify({
+                log:{severity:"warning", topic:"Crosspoint Settings", text:"File will be created on first use.", raw:null}
+            }));
+        }
+
+        try {
+            let rawFile = fs.readFileSync("./state/virtual.json");
+            let virtual = JSON.parse(rawFile);
+            this.virtualSources = virtual.sources || {};
+            this.virtualRoutes = virtual.routes || {};
+        } catch (e) {
+            parentPort.postMessage(JSON.stringify({
+                log:{severity:"warning", topic:"Crosspoint Settings", text:"Error while reading file: ./state/virtual.json", raw:null}
+            }));
+            parentPort.postMessage(JSON.stringify({
+                log:{severity:"warning", topic:"Crosspoint Settings", text:"File will be created on first use.", raw:null}
+            }));
+        }
+
         try {
             let rawFile = fs.readFileSync("./state/multicast.json");
             this.storedMulticast = JSON.parse(rawFile);
@@ -135,6 +168,15 @@ class CrosspointUpdateThread{
             this.updateRequest ++;
         }
 
+        if(data.hasOwnProperty('channelMapping')){
+            this.channelMapping = data.channelMapping;
+            this.updateRequest ++;
+        }
+
+        if(data.hasOwnProperty('workerRequest')){
+            this.handleRequest(data.workerRequest);
+        }
+
         if(data.hasOwnProperty('changeAlias')){
 
             if(data.changeAlias.alias != ""){
@@ -394,6 +436,7 @@ class CrosspointUpdateThread{
         parentPort.postMessage(JSON.stringify({
             crosspointState: this.crosspointState
         }));
+        this.updateMulticastUsage();
 
         //let timeTaken = Date.now() - start;
         //console.log("- - - - - - - - Crosspoint Update -- Total time taken : " + timeTaken + " milliseconds");
@@ -510,6 +553,10 @@ class CrosspointUpdateThread{
 
                     if(!this.crosspointShadow.devices[groupId].senders[type].hasOwnProperty("nmos_"+send.id)){
                         //create
+                        // flow changed its type (e.g. data flows detected as IS-07 events), drop the old entry
+                        for(let otherType in this.crosspointShadow.devices[groupId].senders){
+                            delete this.crosspointShadow.devices[groupId].senders[otherType]["nmos_"+send.id];
+                        }
                         let num = 1;
                         //console.log(type + " " + Object.values(this.crosspointShadow.devices[groupId].senders[type]))
                         Object.values(this.crosspointShadow.devices[groupId].senders[type]).forEach((shs:any)=>{
@@ -587,6 +634,10 @@ class CrosspointUpdateThread{
 
                     if(!this.crosspointShadow.devices[groupId].receivers[type].hasOwnProperty("nmos_"+recv.id)){
                         //create
+                        // flow changed its type (e.g. data flows detected as IS-07 events), drop the old entry
+                        for(let otherType in this.crosspointShadow.devices[groupId].receivers){
+                            delete this.crosspointShadow.devices[groupId].receivers[otherType]["nmos_"+recv.id];
+                        }
                         let num = 1;
                         //console.log(type + " " + Object.values(this.crosspointShadow.devices[groupId].senders[type]))
                         Object.values(this.crosspointShadow.devices[groupId].receivers[type]).forEach((shs:any)=>{
@@ -614,10 +665,88 @@ class CrosspointUpdateThread{
                         
                     }
             }
+
+            // IS-08 Channel Mapping, inputs are audiochannel senders and outputs are audiochannel receivers
+            for (let cmDevice of Object.values(this.channelMapping.devices)) {
+                if(!this.nmosState.devices.hasOwnProperty(cmDevice.id)){
+                    continue;
+                }
+                let nmosDevice = this.nmosState.devices[cmDevice.id];
+                let firstFlow = this.nmosState.senders[nmosDevice.senders[0]] || this.nmosState.receivers[nmosDevice.receivers[0]] || {};
+                let { groupId, groupLabel } = getDeviceGroupInfo(cmDevice.id, firstFlow, 'sender');
+
+                if(!this.crosspointShadow.devices.hasOwnProperty(groupId)){
+                    this.crosspointShadow.devices[groupId] = {
+                        id:groupId,
+                        num: this.nextDeviceNum++,
+                        order:-1,
+                        name:groupLabel,
+                        senders:{ audio:{},audiochannel:{},video:{},data:{},websocket:{},mqtt:{}, unknown:{} },
+                        receivers:{ audio:{},audiochannel:{},video:{},data:{},websocket:{},mqtt:{}, unknown:{} }
+                    }
+                    changed = true;
+                }
+                this.crosspointShadow.devices[groupId]["available"] = true;
+
+                for(let inputId in cmDevice.inputs){
+                    let input = cmDevice.inputs[inputId];
+                    input.channels.forEach((c, index)=>{
+                        let id = ChannelMappingFlowId(cmDevice.id, "input", inputId, index);
+                        if(this.addShadowChannel(this.crosspointShadow.devices[groupId].senders.audiochannel, id, input.name + " " + (c.label || (index+1)), index)){
+                            changed = true;
+                        }
+                    });
+                }
+
+                for(let outputId in cmDevice.outputs){
+                    let output = cmDevice.outputs[outputId];
+                    output.channels.forEach((c, index)=>{
+                        let id = ChannelMappingFlowId(cmDevice.id, "output", outputId, index);
+                        if(this.addShadowChannel(this.crosspointShadow.devices[groupId].receivers.audiochannel, id, output.name + " " + (c.label || (index+1)), index)){
+                            changed = true;
+                        }
+                    });
+                }
+            }
         }
 
 
-        
+
+        // Virtual sources
+        for (let virt of Object.values(this.virtualSources)) {
+            if(!this.crosspointShadow.devices.hasOwnProperty(virt.id)){
+                this.crosspointShadow.devices[virt.id] = {
+                    id:virt.id,
+                    num: this.nextDeviceNum++,
+                    order:-1,
+                    name:virt.name,
+                    senders:{ audio:{},audiochannel:{},video:{},data:{},websocket:{},mqtt:{}, unknown:{} },
+                    receivers:{ audio:{},audiochannel:{},video:{},data:{},websocket:{},mqtt:{}, unknown:{} }
+                }
+                changed = true;
+            }
+            let shadowDevice = this.crosspointShadow.devices[virt.id];
+            shadowDevice["available"] = true;
+            for(let flow of virt.flows){
+                if(!shadowDevice.senders[flow.type].hasOwnProperty(flow.id)){
+                    let num = 1;
+                    Object.values(shadowDevice.senders[flow.type]).forEach((shs:any)=>{
+                        if(shs.num >= num){
+                            num = shs.num+1;
+                        }
+                    });
+                    shadowDevice.senders[flow.type][flow.id] = {
+                        id:flow.id,
+                        name:flow.name,
+                        num:num,
+                        order:-1,
+                        type:flow.type,
+                        channelNumber:-1
+                    }
+                    changed = true;
+                }
+            }
+        }
 
         this.informMulticast = true;
         if(changed){
@@ -632,6 +761,56 @@ class CrosspointUpdateThread{
         }
     }
 
+    // Creates or renames a shadow audio channel, returns true if the shadow was changed
+    addShadowChannel(list:any, id:string, name:string, index:number){
+        if(!list.hasOwnProperty(id)){
+            let num = 1;
+            Object.values(list).forEach((shs:any)=>{
+                if(shs.num >= num){
+                    num = shs.num+1;
+                }
+            });
+            list[id] = {
+                id:id,
+                name:name,
+                num:num,
+                order:-1,
+                type:"audiochannel",
+                channelNumber:index+1
+            }
+            return true;
+        }
+        if(list[id].name != name){
+            list[id].name = name;
+            return true;
+        }
+        return false;
+    }
+
+    // Returns the IS-08 device, io and channel of a crosspoint audiochannel flow id
+    getChannelMappingFlow(flowId:string){
+        for(let cmDevice of Object.values(this.channelMapping.devices)){
+            if(!flowId.startsWith("cm_" + cmDevice.id + "_")){
+                continue;
+            }
+            for(let inputId in cmDevice.inputs){
+                for(let index = 0; index < cmDevice.inputs[inputId].channels.length; index++){
+                    if(ChannelMappingFlowId(cmDevice.id, "input", inputId, index) == flowId){
+                        return {device:cmDevice, input:cmDevice.inputs[inputId], output:null, index};
+                    }
+                }
+            }
+            for(let outputId in cmDevice.outputs){
+                for(let index = 0; index < cmDevice.outputs[outputId].channels.length; index++){
+                    if(ChannelMappingFlowId(cmDevice.id, "output", outputId, index) == flowId){
+                        return {device:cmDevice, input:null, output:cmDevice.outputs[outputId], index};
+                    }
+                }
+            }
+        }
+        return null;
+    }
+
     updateState(){
         
         this.crosspointState = {
@@ -649,9 +828,11 @@ class CrosspointUpdateThread{
                 receiverIds:[],
                 connectedFlows:[],
                 hidden:(this.crosspointHidden.hasOwnProperty(dev.id)),
+                virtual:dev.id.startsWith("virt_"),
                 name:dev.name,
                 order:dev.order,
                 available:false,
+                stale:false,
                 senders:{ audio:[],audiochannel:[],video:[],data:[],websocket:[],mqtt:[], unknown:[] },
                 receivers:{ audio:[],audiochannel:[],video:[],data:[],websocket:[],mqtt:[],  unknown:[] }
             }
@@ -685,7 +866,10 @@ class CrosspointUpdateThread{
                             alias:send.name,
                             connectedFlow:"",
                             hidden:(this.crosspointHidden.hasOwnProperty(send.id)),
+                            lock:null,
+                            virtualTarget:"",
                             available:false,
+                            stale:false,
                             active:false,
                             sourceNumber:-1,
                             channelNumber:-1,
@@ -711,6 +895,7 @@ class CrosspointUpdateThread{
                                     this.nmosState.sources.hasOwnProperty(this.nmosState.flows[this.nmosState.senders[nmosId].flow_id].source_id)
                                 ){
                                     source.available = true;
+                                    source.stale = (this.nmosState.senders[nmosId]._stale === true);
                                     source.format = this.getNmosSenderFormat(nmosId);
                                     source.bitrate = this.getNmosSenderBitrate(nmosId);
                                     if(this.nmosState.senders[nmosId].interface_bindings?.length > 1){
@@ -718,7 +903,8 @@ class CrosspointUpdateThread{
                                     }
                                     if(
                                         this.nmosState.senders[nmosId].transport == "urn:x-nmos:transport:rtp" ||
-                                        this.nmosState.senders[nmosId].transport == "urn:x-nmos:transport:rtp.mcast"
+                                        this.nmosState.senders[nmosId].transport == "urn:x-nmos:transport:rtp.mcast" ||
+                                        this.nmosState.senders[nmosId].transport == "urn:x-nmos:transport:rtp.ucast"
                                     ){
                                         source.capabilities.transport = "rtp";
                                     }
@@ -727,6 +913,15 @@ class CrosspointUpdateThread{
                                 }
                             }
                         }
+                        if(send.id.startsWith("cm_")){
+                            let channel = this.getChannelMappingFlow(send.id);
+                            if(channel && channel.input){
+                                source.available = true;
+                                source.active = true;
+                                source.channelNumber = channel.index + 1;
+                                source.capabilities.transport = "is-08";
+                            }
+                        }
                         device.senders[send.type].push(source);
                     }
                 }
@@ -747,7 +942,10 @@ class CrosspointUpdateThread{
                             alias:recv.name,
                             connectedFlow:"",
                             hidden:(this.crosspointHidden.hasOwnProperty(recv.id)),
+                            lock:(this.crosspointLocks[recv.id] || null),
+                            virtualTarget:"",
                             available:false,
+                            stale:false,
                             active:false,
                             sourceNumber:-1,
                             channelNumber:-1,
@@ -769,9 +967,11 @@ class CrosspointUpdateThread{
                                     
                                 ){
                                     receiver.available = true;
+                                    receiver.stale = (this.nmosState.receivers[nmosId]._stale === true);
                                     if(
                                         this.nmosState.receivers[nmosId].transport == "urn:x-nmos:transport:rtp" ||
-                                        this.nmosState.receivers[nmosId].transport == "urn:x-nmos:transport:rtp.mcast"
+                                        this.nmosState.receivers[nmosId].transport == "urn:x-nmos:transport:rtp.mcast" ||
+                                        this.nmosState.receivers[nmosId].transport == "urn:x-nmos:transport:rtp.ucast"
                                     ){
                                         receiver.capabilities.transport = "rtp";
                                     }
@@ -784,6 +984,20 @@ class CrosspointUpdateThread{
                                 }
                             }
                         }
+                        if(recv.id.startsWith("cm_")){
+                            let channel = this.getChannelMappingFlow(recv.id);
+                            if(channel && channel.output){
+                                let route = channel.output.channels[channel.index];
+                                receiver.available = true;
+                                receiver.active = true;
+                                receiver.channelNumber = channel.index + 1;
+                                receiver.capabilities.transport = "is-08";
+                                if(route.input != null && route.channelIndex != null){
+                                    receiver.connectedFlow = ChannelMappingFlowId(channel.device.id, "input", route.input, route.channelIndex);
+                                    device.connectedFlows.push(receiver.connectedFlow);
+                                }
+                            }
+                        }
                         device.receivers[recv.type].push(receiver);
                     }
 
@@ -796,6 +1010,8 @@ class CrosspointUpdateThread{
             this.crosspointState.devices.push(device);
         }
 
+        this.applyVirtualSources();
+
         // Post process available
         for (let dev of Object.values(this.crosspointState.devices)){
             let flowCount = 0;
@@ -805,6 +1021,9 @@ class CrosspointUpdateThread{
                     if(f.available){
                         flowCount++;
                     }
+                    if(f.stale){
+                        dev.stale = true;
+                    }
                 })
             }
             for(let type of Object.keys(dev.receivers)){
@@ -812,6 +1031,9 @@ class CrosspointUpdateThread{
                     if(f.available){
                         flowCount++;
                     }
+                    if(f.stale){
+                        dev.stale = true;
+                    }
                 })
             }
 
@@ -825,6 +1047,61 @@ class CrosspointUpdateThread{
     }
 
 
+    // Virtual senders show the state of their target, receivers following a virtual source show it as connected flow
+    applyVirtualSources(){
+        let senders:{[id:string]:CrosspointFlow} = {};
+        for(let dev of this.crosspointState.devices){
+            for(let type of Object.keys(dev.senders)){
+                dev.senders[type].forEach((f)=>{
+                    senders[f.id] = f;
+                });
+            }
+        }
+
+        for(let dev of this.crosspointState.devices){
+            if(dev.virtual){
+                for(let type of Object.keys(dev.senders)){
+                    dev.senders[type].forEach((f:CrosspointFlow)=>{
+                        let virtualFlow = this.getVirtualFlow(f.id);
+                        f.virtualTarget = virtualFlow ? virtualFlow.target : "";
+                        let target = senders[f.virtualTarget];
+                        if(target){
+                            f.available = target.available;
+                            f.stale = target.stale;
+                            f.active = target.active;
+                            f.manifestOk = target.manifestOk;
+                            f.format = target.format;
+                            f.capabilities = target.capabilities;
+                            f.bitrate = target.bitrate;
+                        }
+                    });
+                }
+            }
+            for(let type of Object.keys(dev.receivers)){
+                dev.receivers[type].forEach((f:CrosspointFlow)=>{
+                    if(!this.virtualRoutes.hasOwnProperty(f.id) || f.connectedFlow == ""){
+                        return;
+                    }
+                    let virtualFlow = this.getVirtualFlow(this.virtualRoutes[f.id]);
+                    if(virtualFlow && virtualFlow.target == f.connectedFlow){
+                        f.connectedFlow = virtualFlow.id;
+                        dev.connectedFlows.push(virtualFlow.id);
+                    }
+                });
+            }
+        }
+    }
+
+    getVirtualFlow(flowId:string):VirtualSourceFlow|null{
+        for(let virt of Object.values(this.virtualSources)){
+            let flow = virt.flows.find((f)=>f.id == flowId);
+            if(flow){
+                return flow;
+            }
+        }
+        return null;
+    }
+
     getNmosSenderBitrate(senderId:string){
         let bitrate = 0;
         let bitrateHint = "unknown";
@@ -1014,6 +1291,12 @@ class CrosspointUpdateThread{
         try {
           let receiver = this.nmosState.receivers[receiverId];
           // TODO detect disabled sender
+          switch (receiver.transport) {
+            case 'urn:x-nmos:transport:websocket':
+              return 'websocket';
+            case 'urn:x-nmos:transport:mqtt':
+              return 'mqtt';
+          }
           switch (receiver.format) {
             case 'urn:x-nmos:format:audio':
               return 'audio';
@@ -1030,6 +1313,12 @@ class CrosspointUpdateThread{
         try {
           let flow = this.nmosState.flows[this.nmosState.senders[senderId].flow_id];
           // TODO detect disabled sender
+          switch (this.nmosState.senders[senderId].transport) {
+            case 'urn:x-nmos:transport:websocket':
+              return 'websocket';
+            case 'urn:x-nmos:transport:mqtt':
+              return 'mqtt';
+          }
           switch (flow.format) {
             case 'urn:x-nmos:format:audio':
               return 'audio';
@@ -1044,22 +1333,28 @@ class CrosspointUpdateThread{
 
 
 
-    updateMulticast(){
+    // Gives free multicast addresses to sender legs without or with a duplicate destination address.
+    // With dryRun nothing is changed, the returned report lists what would be done.
+    updateMulticast(dryRun = false){
         let storeChanged = false;
+        let report:MulticastReport = {policy:this.settings.multicastAllocation.policy, changes:[], errors:[]};
         try{
-            if(this.informMulticast == false){
-                // Nothing to do....
-                return;
-            }
-
-            this.informMulticast = false;
+            if(!dryRun){
+                if(this.informMulticast == false){
+                    // Nothing to do....
+                    return report;
+                }
 
+                this.informMulticast = false;
+            }
 
+            if(!this.nmosState){
+                return report;
+            }
 
 
             let duplicateMulticast:any = {};
             let activeMulticast:any = {};
-            let activeErrors:any = {};
 
             let todoList:any[] = []
 
@@ -1069,18 +1364,12 @@ class CrosspointUpdateThread{
             for(let senderId in this.nmosState.senderActiveData){
                 let nmosId = "nmos_"+senderId
                 let activeData = this.nmosState.senderActiveData[senderId];
-                let multicast = [];
 
                 // TODO test errors between SDP and Active...
 
                 let workingOnLeg = false;
 
                 activeData.transport_params.forEach((p, index)=>{
-                    multicast.push(p.destination_ip);
-
-                    
-
-
                     if(p.destination_ip != ""){
                         if(activeMulticast.hasOwnProperty(p.destination_ip)){
                             // Duplicate....
@@ -1092,7 +1381,7 @@ class CrosspointUpdateThread{
                             if(!workingOnLeg){
                                 // One leg at a time
                                 workingOnLeg = true;
-                                todoList.push({index,senderId})
+                                todoList.push({index,senderId,current:p.destination_ip})
                             }
                             
                         }else{
@@ -1106,7 +1395,7 @@ class CrosspointUpdateThread{
                         if(!workingOnLeg){
                             // One leg at a time
                             workingOnLeg = true;
-                            todoList.push({index,senderId})
+                            todoList.push({index,senderId,current:""})
                         }
                     }
 
@@ -1119,121 +1408,76 @@ class CrosspointUpdateThread{
                 let senderId = t.senderId;
                 let nmosId = "nmos_"+senderId;
                 let index = t.index;
-
-
-                let give = "";
-                let type = this.nmosState.flows[this.nmosState.senders[senderId].flow_id].format;
-                if(type == "urn:x-nmos:format:video" ){
-                    type = "video"
-                }else if (type == "urn:x-nmos:format:audio"){
-                    type = "audio"
-                }else{
-                    type = "other"
+                let sender = this.nmosState.senders[senderId];
+                if(!sender){
+                    return;
                 }
 
+                let {type, range, policy} = this.getMulticastRange(senderId, index);
+                let change:MulticastChange = {
+                    senderId:senderId,
+                    label:sender.label,
+                    leg:index,
+                    rangeType:type,
+                    range:range,
+                    policy:policy,
+                    current:t.current,
+                    multicast:"",
+                    reason:(t.current == "" ? "missing" : "duplicate")
+                };
 
-                if(this.storedMulticast.hasOwnProperty(nmosId)){
-                    give = ""
-                    this.storedMulticast[nmosId].forEach((s)=>{
-                        if(s.index == index){
-                            give = s.multicast
-                        }
-                    });
-
-                    if(give != ""){
-
-                        give = this.storedMulticast[nmosId][index]
-                        if(activeMulticast.hasOwnProperty(give)){
-                            // Search new IP
+                let give = "";
+                let stored = (this.storedMulticast[nmosId] || []).find((s)=>s.index == index);
+                try{
+                    if(stored && stored.multicast != "" && !activeMulticast.hasOwnProperty(stored.multicast)){
+                        give = stored.multicast;
+                        change.reason = "stored";
+                    }else{
+                        if(stored && stored.multicast != "" && !dryRun){
                             parentPort.postMessage(JSON.stringify({
-                                log:{severity:"warn", topic:"Multicast Config", text:"Given multicast address used by other device.",raw:{activeId:activeMulticast[give], givenId:nmosId, multicast:give}}
+                                log:{severity:"warning", topic:"Multicast Config", text:"Given multicast address used by other device.",raw:{activeId:activeMulticast[stored.multicast], givenId:nmosId, multicast:stored.multicast}}
                             }));
-                            
-                            // TODO: find UHD and JXS for different ranges
-                            
-                            while(1){
-                                give = this.getRandomMulticastAddress(index,type);
-                                if(!this.checkStoredMulticast(give)){
-                                    if(!activeMulticast.hasOwnProperty(give)){
-                                        break;
-                                    }
-                                }
-                            }
-                            if(give != ""){
-                                activeMulticast[give] = nmosId;
-
-                                if(this.storedMulticast.hasOwnProperty(nmosId)){
-                                    this.storedMulticast[nmosId].forEach((s)=>{
-                                        if(s.index == index){
-                                            s.multicast = give;
-                                        }
-                                    });
-                                }else{
-                                    this.storedMulticast[nmosId] = [];
-                                    this.storedMulticast[nmosId].push({index:index, multicast:give})
-                                }
-                                storeChanged = true;
-
-                                parentPort.postMessage(JSON.stringify({
-                                    log:{severity:"info", topic:"Multicast Config", text:"Given multicast address to sender:",raw:{givenId:nmosId, multicast:give}}
-                                }));
-                                console.log(give,senderId, this.nmosState.senders[senderId].label);
-                                if(!this.nmosState.senders[senderId].subscription.active)
-                                console.error("inactive")
-                                parentPort.postMessage(JSON.stringify({
-                                    nmosSetMulticast:{nmosId:senderId, multicast:{legs:[{index:index, multicast:give}]}}
-                                }));
-                            }
-                            return;
-
                         }
+                        give = this.allocateMulticast(senderId, index, (ip)=>(activeMulticast.hasOwnProperty(ip) || this.checkStoredMulticast(ip, nmosId, index)));
                     }
-                }
-                // if path did not get multicast
-                    
-                while(1){
-                    // TODO protect loop if no more multicast available
-                    give = this.getRandomMulticastAddress(index,type);
-                    if(!this.checkStoredMulticast(give)){
-                        if(!activeMulticast.hasOwnProperty(give)){
-                            break;
-                        }
+                }catch(e){
+                    report.errors.push({senderId:senderId, label:sender.label, leg:index, range:range, message:e.message, exhausted:(e instanceof MulticastAllocationError && e.exhausted)});
+                    if(!dryRun){
+                        parentPort.postMessage(JSON.stringify({
+                            log:{severity:"error", topic:"Multicast Config", text:"No multicast address for sender "+sender.label+": "+e.message, raw:{senderId:senderId, leg:index, range:range}}
+                        }));
                     }
+                    return;
                 }
-                if(give != ""){
-                    activeMulticast[give] = nmosId;
 
-                    if(this.storedMulticast.hasOwnProperty(nmosId)){
-                        this.storedMulticast[nmosId].forEach((s)=>{
-                            if(s.index == index){
-                                s.multicast = give;
-                            }
-                        });
-                    }else{
+                activeMulticast[give] = nmosId;
+                change.multicast = give;
+                report.changes.push(change);
+                if(dryRun){
+                    return;
+                }
+
+                if(stored){
+                    stored.multicast = give;
+                }else{
+                    if(!this.storedMulticast.hasOwnProperty(nmosId)){
                         this.storedMulticast[nmosId] = [];
-                        this.storedMulticast[nmosId].push({index:index, multicast:give})
                     }
-                    storeChanged = true;
-
-                    parentPort.postMessage(JSON.stringify({
-                        log:{severity:"info", topic:"Multicast Config", text:"Given multicast address to sender:",raw:{givenId:nmosId, multicast:give}}
-                    }));
-                    console.log("Give Multicast:", give,senderId, this.nmosState.senders[senderId].label);
-                    if(!this.nmosState.senders[senderId].subscription.active)
-                    console.error("inactive")
-                    parentPort.postMessage(JSON.stringify({
-                        nmosSetMulticast:{nmosId:senderId, multicast:{legs:[{index:index, multicast:give}]}}
-                    }));
+                    this.storedMulticast[nmosId].push({index:index, multicast:give})
                 }
-
-
+                storeChanged = true;
+
+                parentPort.postMessage(JSON.stringify({
+                    log:{severity:"info", topic:"Multicast Config", text:"Given multicast address to sender:",raw:{givenId:nmosId, multicast:give, policy:policy, range:range}}
+                }));
+                if(!sender.subscription.active)
+                console.error("inactive")
+                parentPort.postMessage(JSON.stringify({
+                    nmosSetMulticast:{nmosId:senderId, multicast:{legs:[{index:index, multicast:give}]}}
+                }));
             })
 
 
-            //console.log(activeMulticast)
-            console.log("multicast done")
-
-
             // ------- END NMOS
 
 
@@ -1244,96 +1488,448 @@ class CrosspointUpdateThread{
         }
 
         if(storeChanged){
-            try{
-                fs.writeFileSync("./state/multicast.json", JSON.stringify(this.storedMulticast));
-            }catch(e){
-                console.error("Error writing to file: ./state/multicast.json");
-            }
+            this.saveStoredMulticast();
+            this.updateMulticastUsage();
         }
 
+        return report;
+    }
 
+    // Type, range and policy of a sender leg
+    getMulticastRange(senderId:string, leg:number){
+        let flow = this.nmosState.flows[this.nmosState.senders[senderId]?.flow_id];
+        let type = GetMulticastRangeType(flow, this.settings.multicastRanges);
+        let range = type ? GetMulticastRange(this.settings.multicastRanges, type, leg) : null;
+        let policy:MulticastPolicy = (type && this.settings.multicastRanges[type].policy) || this.settings.multicastAllocation.policy;
+        return {type, range, policy};
+    }
 
+    allocateMulticast(senderId:string, leg:number, isUsed:(ip:string)=>boolean){
+        let {type, range, policy} = this.getMulticastRange(senderId, leg);
+        if(!range){
+            throw new MulticastAllocationError("No multicast range configured for " + (type || "this format") + " leg " + (leg+1), null);
+        }
+        let numbers = this.getShadowNumbers("nmos_"+senderId);
+        let legsShareRange = (GetMulticastRange(this.settings.multicastRanges, type, 0) == GetMulticastRange(this.settings.multicastRanges, type, 1));
+        return AllocateMulticastAddress(policy, range, {
+            leg:leg,
+            deviceNum:numbers.deviceNum,
+            flowNum:numbers.flowNum,
+            isUsed:isUsed
+        }, legsShareRange);
+    }
 
+    saveStoredMulticast(){
+        try{
+            fs.writeFileSync("./state/multicast.json", JSON.stringify(this.storedMulticast));
+        }catch(e){
+            console.error("Error writing to file: ./state/multicast.json");
+        }
+    }
 
+    multicastUsageHash = "";
 
+    // Every multicast group used by a sender leg with its range, reservation and duplicates for the multicast sync object
+    updateMulticastUsage(){
+        let usage:MulticastUsageState = {groups:[], duplicates:{}, reservations:[]};
+        let owners:{[multicast:string]:string[]} = {};
 
+        if(this.nmosState){
+            for(let senderId in this.nmosState.senderActiveData){
+                let flowId = "nmos_"+senderId;
+                let params = this.nmosState.senderActiveData[senderId].transport_params || [];
+                params.forEach((p, leg)=>{
+                    if(!IpInSubnet(p.destination_ip, "224.0.0.0/4")){
+                        return;
+                    }
+                    let {type, range} = this.getMulticastRange(senderId, leg);
+                    let reservation = this.getStoredMulticastOwner(p.destination_ip);
+                    let reserved = (reservation != null && reservation.id == flowId && reservation.leg == leg);
+                    usage.groups.push({
+                        multicast:p.destination_ip,
+                        flowId:flowId,
+                        label:this.nmosState.senders[senderId]?.label || "",
+                        leg:leg,
+                        rangeType:type,
+                        range:range,
+                        inRange:(range != null && IpInSubnet(p.destination_ip, range)),
+                        reserved:reserved,
+                        reservedBy:(reservation && !reserved) ? reservation.id : null,
+                        duplicate:false
+                    });
+                    if(!owners.hasOwnProperty(p.destination_ip)){
+                        owners[p.destination_ip] = [];
+                    }
+                    owners[p.destination_ip].push(flowId);
+                });
+            }
+        }
+
+        for(let multicast in owners){
+            if(owners[multicast].length > 1){
+                usage.duplicates[multicast] = owners[multicast];
+            }
+        }
+        usage.groups.forEach((g)=>{
+            g.duplicate = usage.duplicates.hasOwnProperty(g.multicast);
+        });
+        usage.groups.sort((a, b)=>(IpToNumber(a.multicast) - IpToNumber(b.multicast)) || (a.leg - b.leg));
+
+        for(let id in this.storedMulticast){
+            for(let e of this.storedMulticast[id]){
+                usage.reservations.push({id:id, leg:e.index, multicast:e.multicast, used:owners.hasOwnProperty(e.multicast)});
+            }
+        }
 
+        let hash = md5(JSON.stringify(usage));
+        if(hash != this.multicastUsageHash){
+            this.multicastUsageHash = hash;
+            parentPort.postMessage(JSON.stringify({
+                multicastUsage: usage
+            }));
+        }
+    }
 
+    // Requests of the main thread that are answered with a result or an error
+    handleRequest(request:any){
+        let response:any = {requestId:request.requestId};
+        try{
+            switch(request.type){
+                case "multicastDryRun":
+                    response.result = this.updateMulticast(true);
+                    break;
+                case "multicastReserve":
+                    response.result = this.reserveMulticast(request.data);
+                    break;
+                case "multicastRelease":
+                    response.result = this.releaseMulticast(request.data);
+                    break;
+                case "multicastReassign":
+                    response.result = this.reassignMulticast(request.data);
+                    break;
+                case "setLock":
+                    response.result = this.setLock(request.data);
+                    break;
+                case "virtualCreate":
+                    response.result = this.createVirtualSource(request.data);
+                    break;
+                case "virtualDelete":
+                    response.result = this.deleteVirtualSource(request.data);
+                    break;
+                case "virtualMap":
+                    response.result = this.mapVirtualSource(request.data);
+                    break;
+                case "virtualRoutes":
+                    response.result = this.setVirtualRoutes(request.data);
+                    break;
+                default:
+                    throw {status:400, message:"Unknown request: "+request.type};
+            }
+        }catch(e){
+            response.error = {status:e.status || 500, message:e.message};
+        }
+        parentPort.postMessage(JSON.stringify({
+            workerResponse:response
+        }));
     }
 
-    getRandomMulticastAddress(index:number,type:string){
-        let mode = "primary"
-        if(index == 0){
-            mode = "primary"
-        }else if(index == 1){
-            mode = "secondary"
+    // Lock or protection of a receiver, lock null removes it. Ownership is checked by the main thread.
+    setLock(data:any){
+        if(data.lock){
+            this.crosspointLocks[data.id] = data.lock;
         }else{
-            return "";
+            delete this.crosspointLocks[data.id];
         }
-        try{
-            let range = this.settings.multicastRanges[type][mode];
-            let ip = range.split("/")[0].split(".");
-            let mask = Number.parseInt(range.split("/")[1]);
 
-            
-            let bin_ip:string[] = [];
+        for(let dev of this.crosspointState.devices){
+            for(let type of Object.keys(dev.receivers)){
+                for( let flow of dev.receivers[type]){
+                    if(flow.id == data.id){
+                        flow.lock = data.lock || null;
+                    }
+                }
+            }
+        }
 
-            let add = (n, size= 8) => {
-                let num = Number.parseInt(n).toString(2);
+        parentPort.postMessage(JSON.stringify({
+            crosspointState: this.crosspointState
+        }));
 
+        try{
+            fs.writeFileSync("./state/locks.json", JSON.stringify(this.crosspointLocks));
+        }catch(e){
+            console.error("Error writing to file: ./state/locks.json");
+        }
+        return {id:data.id, lock:data.lock || null};
+    }
 
-                for(let i = 0; i<8; i++){
-                    if(i<num.length){
-                        bin_ip.push(num[num.length-i-1])
-                    }else{
-                        bin_ip.push("0");
-                    }
+    createVirtualSource(data:any){
+        let id = "virt_" + md5(data.name + Date.now() + Math.random());
+        let virt:VirtualSourceDevice = {id:id, name:data.name, flows:[]};
+        let count = {};
+        data.types.forEach((type, index)=>{
+            count[type] = (count[type] || 0) + 1;
+            virt.flows.push({
+                id:"virt_" + md5(id + "_" + index),
+                name:type[0].toUpperCase() + type.slice(1) + " " + count[type],
+                type:type,
+                target:""
+            });
+        });
+        this.virtualSources[id] = virt;
+        this.saveVirtualSources();
+        this.doUpdate();
+        parentPort.postMessage(JSON.stringify({
+            log:{severity:"info", topic:"Crosspoint", text:"Virtual source "+data.name+" created.", raw:virt}
+        }));
+        return virt;
+    }
+
+    deleteVirtualSource(data:any){
+        let virt = this.virtualSources[data.id];
+        if(!virt){
+            throw {status:404, message:"Virtual source not found"};
+        }
+        for(let receiverId of Object.keys(this.virtualRoutes)){
+            if(virt.flows.some((f)=>f.id == this.virtualRoutes[receiverId])){
+                delete this.virtualRoutes[receiverId];
+            }
+        }
+        delete this.virtualSources[data.id];
+        delete this.crosspointShadow.devices[data.id];
+        this.saveVirtualSources();
+        try{
+            fs.writeFileSync("./state/crosspoint.json", JSON.stringify(this.crosspointShadow));
+        }catch(e){
+            console.error("Error writing to file: ./state/crosspoint.json");
+        }
+        this.doUpdate();
+        return {id:data.id};
+    }
+
+    // targets: virtual flow id > sender flow id ("" unmaps), returns the receivers following each changed flow
+    mapVirtualSource(data:any){
+        let virt = this.virtualSources[data.id];
+        if(!virt){
+            throw {status:404, message:"Virtual source not found"};
+        }
+        let changes = [];
+        for(let flow of virt.flows){
+            if(!data.targets.hasOwnProperty(flow.id) || data.targets[flow.id] == flow.target){
+                continue;
+            }
+            let receivers = [];
+            for(let dev of this.crosspointState.devices){
+                for(let type of Object.keys(dev.receivers)){
+                    dev.receivers[type].forEach((f)=>{
+                        if(f.connectedFlow == flow.id){
+                            receivers.push(f.id);
+                        }
+                    });
                 }
+            }
+            changes.push({flow:flow.id, previous:flow.target, target:data.targets[flow.id], receivers:receivers});
+            flow.target = data.targets[flow.id];
+        }
+        if(changes.length > 0){
+            this.saveVirtualSources();
+            this.doUpdate();
+            parentPort.postMessage(JSON.stringify({
+                log:{severity:"info", topic:"Crosspoint", text:"Virtual source "+virt.name+" mapped.", raw:changes}
+            }));
+        }
+        return {id:virt.id, changes:changes};
+    }
 
-                while (num.length < size) num = "0" + num;
-                return num;
+    // routes: receiver flow id > virtual flow id, null if the receiver does not follow a virtual source
+    setVirtualRoutes(data:any){
+        let changed = false;
+        for(let receiverId of Object.keys(data.routes)){
+            let virtualId = data.routes[receiverId];
+            if(virtualId && this.virtualRoutes[receiverId] != virtualId){
+                this.virtualRoutes[receiverId] = virtualId;
+                changed = true;
+            }else if(!virtualId && this.virtualRoutes.hasOwnProperty(receiverId)){
+                delete this.virtualRoutes[receiverId];
+                changed = true;
             }
+        }
+        if(changed){
+            this.saveVirtualSources();
+            this.doUpdate();
+        }
+        return {};
+    }
 
-            add(ip[3]);
-            add(ip[2]);
-            add(ip[1]);
-            add(ip[0]);
+    saveVirtualSources(){
+        try{
+            fs.writeFileSync("./state/virtual.json", JSON.stringify({sources:this.virtualSources, routes:this.virtualRoutes}));
+        }catch(e){
+            console.error("Error writing to file: ./state/virtual.json");
+        }
+    }
 
-            for(let i = 0;i<mask; i++){
-                bin_ip[i] = (Math.random()>0.5? "1":"0")
+    getRequestLeg(data:any){
+        let leg = data.hasOwnProperty("leg") ? Number.parseInt(""+data.leg) : 0;
+        if(isNaN(leg) || leg < 0){
+            throw {status:400, message:"Invalid leg: "+data.leg};
+        }
+        return leg;
+    }
+
+    // Flow ID and leg of the active sender leg using the address, null if unused
+    getMulticastUser(multicast:string){
+        if(!this.nmosState){
+            return null;
+        }
+        for(let senderId in this.nmosState.senderActiveData){
+            let params = this.nmosState.senderActiveData[senderId].transport_params || [];
+            let leg = params.findIndex((p)=>p.destination_ip == multicast);
+            if(leg >= 0){
+                return {id:"nmos_"+senderId, leg:leg};
             }
+        }
+        return null;
+    }
 
-            
+    // Reserves an address for a flow leg in ./state/multicast.json, the id can also be the name of an external device
+    reserveMulticast(data:any){
+        let leg = this.getRequestLeg(data);
+        if(typeof data.id != "string" || data.id == ""){
+            throw {status:400, message:"No id given."};
+        }
+        if(!IpInSubnet(data.multicast, "224.0.0.0/4")){
+            throw {status:400, message:"Not a multicast address: "+data.multicast};
+        }
+        if(this.checkStoredMulticast(data.multicast, data.id, leg)){
+            let owner = this.getStoredMulticastOwner(data.multicast);
+            throw {status:409, message:"Multicast address already reserved for "+owner.id+" leg "+(owner.leg+1)};
+        }
+        let user = this.getMulticastUser(data.multicast);
+        if(user && !(user.id == data.id && user.leg == leg)){
+            throw {status:409, message:"Multicast address used by "+user.id+" leg "+(user.leg+1)};
+        }
 
-            let give = ""
-            for(let i = 0; i<4; i++){
-                let part = "";
-                for(let y = 0; y<8; y++){
-                    part = bin_ip[i*8+y] + part;
-                }
-                if(i!=0){
-                    give = "."+give
+        this.setStoredMulticast(data.id, leg, data.multicast);
+        parentPort.postMessage(JSON.stringify({
+            log:{severity:"info", topic:"Multicast Config", text:"Multicast address reserved.", raw:{id:data.id, leg:leg, multicast:data.multicast}}
+        }));
+        return {id:data.id, leg:leg, multicast:data.multicast};
+    }
+
+    // Releases the reservation of a flow leg or of an address
+    releaseMulticast(data:any){
+        let released = [];
+        let leg = data.hasOwnProperty("multicast") ? -1 : this.getRequestLeg(data);
+        for(let id of Object.keys(this.storedMulticast)){
+            this.storedMulticast[id] = this.storedMulticast[id].filter((e)=>{
+                let match = data.hasOwnProperty("multicast") ? (e.multicast == data.multicast) : (id == data.id && e.index == leg);
+                if(match){
+                    released.push({id:id, leg:e.index, multicast:e.multicast});
                 }
-                give = Number.parseInt(part,2) + give
+                return !match;
+            });
+            if(this.storedMulticast[id].length == 0){
+                delete this.storedMulticast[id];
             }
+        }
+        if(released.length == 0){
+            throw {status:404, message:"No reservation found."};
+        }
+        this.saveStoredMulticast();
+        this.updateMulticastUsage();
+        parentPort.postMessage(JSON.stringify({
+            log:{severity:"info", topic:"Multicast Config", text:"Multicast reservation released.", raw:released}
+        }));
+        return {released:released};
+    }
 
+    // Gives a sender leg a new address, the given one or one of the allocation policy
+    reassignMulticast(data:any){
+        let leg = this.getRequestLeg(data);
+        let senderId = (typeof data.id == "string" && data.id.startsWith("nmos_")) ? data.id.slice(5) : "";
+        let params = this.nmosState?.senderActiveData?.[senderId]?.transport_params;
+        if(!params || !this.nmosState.senders[senderId]){
+            throw {status:404, message:"Sender not available: "+data.id};
+        }
+        if(leg >= params.length){
+            throw {status:400, message:"Sender has no leg "+(leg+1)};
+        }
 
+        let isUsed = (ip:string)=>{
+            let user = this.getMulticastUser(ip);
+            return (user != null && !(user.id == data.id && user.leg == leg)) || this.checkStoredMulticast(ip, data.id, leg);
+        };
+        let give = "";
+        if(data.multicast){
+            if(!IpInSubnet(data.multicast, "224.0.0.0/4")){
+                throw {status:400, message:"Not a multicast address: "+data.multicast};
+            }
+            if(isUsed(data.multicast)){
+                throw {status:409, message:"Multicast address already used or reserved: "+data.multicast};
+            }
+            give = data.multicast;
+        }else{
+            try{
+                give = this.allocateMulticast(senderId, leg, (ip)=>(ip == params[leg].destination_ip || isUsed(ip)));
+            }catch(e){
+                throw {status:(e.exhausted ? 507 : 400), message:e.message};
+            }
+        }
 
-            return give;
+        this.setStoredMulticast(data.id, leg, give);
+        parentPort.postMessage(JSON.stringify({
+            log:{severity:"info", topic:"Multicast Config", text:"Multicast address reassigned:", raw:{givenId:data.id, leg:leg, previous:params[leg].destination_ip, multicast:give}}
+        }));
+        parentPort.postMessage(JSON.stringify({
+            nmosSetMulticast:{nmosId:senderId, multicast:{legs:[{index:leg, multicast:give}]}}
+        }));
+        return {id:data.id, leg:leg, previous:params[leg].destination_ip, multicast:give};
+    }
 
+    setStoredMulticast(id:string, leg:number, multicast:string){
+        if(!this.storedMulticast.hasOwnProperty(id)){
+            this.storedMulticast[id] = [];
+        }
+        let stored = this.storedMulticast[id].find((e)=>e.index == leg);
+        if(stored){
+            stored.multicast = multicast;
+        }else{
+            this.storedMulticast[id].push({index:leg, multicast:multicast});
+        }
+        this.saveStoredMulticast();
+        this.updateMulticastUsage();
+    }
 
-        }catch(e){
-            console.log(e)
+    getStoredMulticastOwner(ip:string){
+        for(let id in this.storedMulticast){
+            for(let e of this.storedMulticast[id]){
+                if(e.multicast == ip){
+                    return {id:id, leg:e.index};
+                }
+            }
         }
+        return null;
+    }
 
-        return "";
+    // Crosspoint numbers of the device and the flow, -1 if not numbered
+    getShadowNumbers(flowId:string){
+        for(let dev of Object.values(this.crosspointShadow.devices)){
+            for(let type of Object.keys(dev.senders)){
+                if(dev.senders[type].hasOwnProperty(flowId)){
+                    return {deviceNum:dev.num, flowNum:dev.senders[type][flowId].num};
+                }
+            }
+        }
+        return {deviceNum:-1, flowNum:-1};
     }
 
 
-    checkStoredMulticast(ip:string){
+    // true if the address is stored for another sender leg
+    checkStoredMulticast(ip:string, flowId = "", index = -1){
         for(let s in this.storedMulticast){
             for(let e of this.storedMulticast[s]){
-                if(e.multicast == ip){
+                if(e.multicast == ip && !(s == flowId && e.index == index)){
                     return true;
                 }
             }
@@ -1345,3 +1941,22 @@ class CrosspointUpdateThread{
 }
 
 let updateThread = new CrosspointUpdateThread();
+
+
+interface MulticastChange {
+    senderId:string,
+    label:string,
+    leg:number,
+    rangeType:string|null,
+    range:string|null,
+    policy:MulticastPolicy,
+    current:string,
+    multicast:string,
+    reason:"missing"|"duplicate"|"stored"
+}
+
+interface MulticastReport {
+    policy:MulticastPolicy,
+    changes:MulticastChange[],
+    errors:{senderId:string, label:string, leg:number, range:string|null, message:string, exhausted:boolean}[]
+}
@@ -80,3 +80,66 @@ export function ShortenNames(dev:string,flow:string){
     }
     return name;
 }
+
+
+// NMOS uses TAI timestamps ("<seconds>:<nanoseconds>"), TAI is currently 37 seconds ahead of UTC
+const TAI_UTC_OFFSET = 37;
+
+export function UtcToTai(time:number){
+    let seconds = Math.floor(time / 1000) + TAI_UTC_OFFSET;
+    let nanoseconds = (time % 1000) * 1000000;
+    return seconds + ":" + nanoseconds;
+}
+
+export function TaiToUtc(tai:string){
+    let parts = tai.split(":");
+    let seconds = Number.parseInt(parts[0]) - TAI_UTC_OFFSET;
+    let nanoseconds = parts.length > 1 ? Number.parseInt(parts[1]) : 0;
+    return seconds * 1000 + Math.floor(nanoseconds / 1000000);
+}
+
+export function IsTaiTimestamp(value:any){
+    return typeof value == "string" && /^\d+:\d+$/.test(value);
+}
+
+
+// Crosspoint flow ids for IS-08 channels, inputs are sources and outputs are destinations
+export function ChannelMappingFlowId(deviceId:string, direction:"input"|"output", ioId:string, index:number){
+    return "cm_" + deviceId + (direction == "input" ? "_i_" : "_o_") + ioId + "_" + index;
+}
+
+
+export function IpToNumber(ip:string):number|null{
+    if(typeof ip != "string"){
+        return null;
+    }
+    let parts = ip.trim().split(".");
+    if(parts.length != 4){
+        return null;
+    }
+    let value = 0;
+    for(let p of parts){
+        let n = Number.parseInt(p);
+        if(isNaN(n) || n < 0 || n > 255 || ""+n != p){
+            return null;
+        }
+        value = value * 256 + n;
+    }
+    return value;
+}
+
+export function NumberToIp(value:number):string{
+    return [24, 16, 8, 0].map((shift)=>Math.floor(value / Math.pow(2, shift)) % 256).join(".");
+}
+
+export function IpInSubnet(ip:string, cidr:string){
+    let parts = cidr.split("/");
+    let address = IpToNumber(ip);
+    let network = IpToNumber(parts[0]);
+    let prefix = parts.length > 1 ? Number.parseInt(parts[1]) : 32;
+    if(address == null || network == null || isNaN(prefix)){
+        return false;
+    }
+    let size = Math.pow(2, 32 - prefix);
+    return Math.floor(address / size) == Math.floor(network / size);
+}
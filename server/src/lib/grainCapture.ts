@@ -0,0 +1,113 @@
+/*
+    NMOS Crosspoint
+    Copyright (C) 2021 Johannes Grieb
+*/
+
+import { SyncLog } from "./syncLog";
+
+const fs = require("fs");
+const path = require("path");
+
+
+// Capture of the raw Query API grains of all registries (one JSON object per line) and replay of a capture file
+
+
+export type CaptureEntry =
+    { kind:"grain", registry:string, version:string, resource:string, resync:boolean, data:any } |
+    { kind:"activeRegistry", registry:string } |
+    { kind:"sdp", senderId:string, data:string } |
+    { kind:"senderActive", senderId:string, data:any };
+
+export class GrainCapture {
+    private stream:any = null;
+    file:string = "";
+
+    constructor(directory:string){
+        try{
+            fs.mkdirSync(directory, {recursive:true});
+            this.file = path.join(directory, "capture_" + new Date().toISOString().replace(/[:.]/g, "-") + ".jsonl");
+            this.stream = fs.createWriteStream(this.file, {flags:"a"});
+            this.stream.on("error", (e)=>{
+                SyncLog.log("error", "Capture", "Error writing capture file: " + this.file, {message:e.message});
+                this.stream = null;
+            });
+            SyncLog.log("info", "Capture", "Recording registry grains to: " + this.file);
+        }catch(e){
+            SyncLog.log("error", "Capture", "Can not create capture file in: " + directory, {message:e.message});
+        }
+    }
+
+    record(entry:CaptureEntry){
+        if(this.stream){
+            this.stream.write(JSON.stringify({t:Date.now(), ...entry}) + "\n");
+        }
+    }
+}
+
+export class GrainReplay {
+    private entries:(CaptureEntry & {t:number})[] = [];
+    private index = 0;
+    private file:string;
+    private speed:number;
+    private loop:boolean;
+    private handler:(entry:CaptureEntry)=>void;
+
+    constructor(file:string, speed:number, loop:boolean, handler:(entry:CaptureEntry)=>void){
+        this.file = file;
+        this.speed = speed;
+        this.loop = loop;
+        this.handler = handler;
+        let invalid = 0;
+        try{
+            fs.readFileSync(file).toString().split("\n").forEach((line:string)=>{
+                if(line.trim() == ""){
+                    return;
+                }
+                try{
+                    this.entries.push(JSON.parse(line));
+                }catch(e){
+                    invalid++;
+                }
+            });
+        }catch(e){
+            SyncLog.log("error", "Replay", "Error while reading capture file: " + file, {message:e.message});
+        }
+        if(invalid > 0){
+            SyncLog.log("warning", "Replay", invalid + " invalid lines in capture file: " + file);
+        }
+    }
+
+    start(){
+        SyncLog.log("info", "Replay", "Replaying " + this.entries.length + " entries from " + this.file + " at speed " + this.speed);
+        this.index = 0;
+        this.next();
+    }
+
+    private next(){
+        if(this.index >= this.entries.length){
+            if(this.loop && this.entries.length > 0){
+                SyncLog.log("info", "Replay", "Restarting replay of " + this.file);
+                this.start();
+            }else{
+                SyncLog.log("info", "Replay", "Replay finished: " + this.file);
+            }
+            return;
+        }
+
+        let entry = this.entries[this.index];
+        this.index++;
+        try{
+            this.handler(entry);
+        }catch(e){
+            SyncLog.log("warning", "Replay", "Error while replaying entry " + this.index, {message:e.message});
+        }
+
+        let delay = 0;
+        if(this.index < this.entries.length){
+            delay = Math.max(0, (this.entries[this.index].t - entry.t) / this.speed);
+        }
+        setTimeout(()=>{
+            this.next();
+        }, delay);
+    }
+}
@@ -0,0 +1,138 @@
+/*
+    NMOS Crosspoint
+    Copyright (C) 2021 Johannes Grieb
+*/
+
+import * as sdpTransform from 'sdp-transform';
+import { IpInSubnet, IpToNumber } from "./functions";
+
+
+// ST 2022-7 leg mapping, legs of senders and receivers are matched by the network of their interfaces
+
+
+// Returns the network of an interface address: the name of a configured network or the subnet with the configured prefix length
+export function GetLegNetwork(ip:string|null, legMapping:any):string|null{
+    let address = IpToNumber(ip);
+    if(address == null){
+        return null;
+    }
+    for(let network of legMapping.networks){
+        if(network.subnets.some((subnet)=>IpInSubnet(ip, subnet))){
+            return network.name;
+        }
+    }
+    let size = Math.pow(2, 32 - legMapping.prefixLength);
+    let base = Math.floor(address / size) * size;
+    return [24, 16, 8, 0].map((shift)=>Math.floor(base / Math.pow(2, shift)) % 256).join(".") + "/" + legMapping.prefixLength;
+}
+
+// For every receiver leg the index of the sender leg on the same network or null if there is none.
+// Falls back to leg 1 > leg 1, leg 2 > leg 2 if the networks are unknown or nothing matches.
+export function MapLegs(senderNetworks:(string|null)[], receiverNetworks:(string|null)[]):{mode:"network"|"index", map:(number|null)[]}{
+    let indexMap = receiverNetworks.map((n, index)=>(index < senderNetworks.length ? index : null));
+
+    if(senderNetworks.includes(null) || receiverNetworks.includes(null)){
+        return {mode:"index", map:indexMap};
+    }
+
+    let used:number[] = [];
+    let map = receiverNetworks.map((network)=>{
+        let index = senderNetworks.findIndex((n, i)=>(n == network && !used.includes(i)));
+        if(index < 0){
+            return null;
+        }
+        used.push(index);
+        return index;
+    });
+
+    if(used.length == 0){
+        return {mode:"index", map:indexMap};
+    }
+    return {mode:"network", map:map};
+}
+
+// Source addresses of the sender legs from the source-filter of each media section
+export function GetSdpLegSources(sdp:string):(string|null)[]{
+    try{
+        return sdpTransform.parse(sdp).media.map((m:any)=>{
+            return (m.sourceFilter ? m.sourceFilter.srcList.split(" ")[0] : null);
+        });
+    }catch(e){
+        return [];
+    }
+}
+
+// Multicast group, source and port of a media section, used as explicit transport params if legs are not mapped 1:1
+export function GetSdpLegParams(sdp:string, index:number){
+    let params:any = {};
+    try{
+        let media:any = sdpTransform.parse(sdp).media[index];
+        let connection = media.connection || sdpTransform.parse(sdp).connection;
+        if(connection && IpInSubnet(connection.ip.split("/")[0], "224.0.0.0/4")){
+            params.multicast_ip = connection.ip.split("/")[0];
+        }
+        if(media.sourceFilter){
+            params.source_ip = media.sourceFilter.srcList.split(" ")[0];
+        }
+        params.destination_port = media.port;
+    }catch(e){}
+    return params;
+}
+
+// Rewrites the SDP so media section n belongs to receiver leg n. Legs without a sender leg are left out,
+// a=group:DUP is removed if only one media section is left.
+export function RewriteSdpLegs(sdp:string, map:(number|null)[]){
+    let session:any = sdpTransform.parse(sdp);
+    let legs = map.filter((index)=>index != null);
+
+    if(legs.length == session.media.length && legs.every((index, i)=>index == i)){
+        return sdp;
+    }
+
+    session.media = legs.map((index)=>session.media[index]);
+
+    if(session.groups){
+        let mids = session.media.map((m:any)=>m.mid).filter((mid)=>mid !== undefined);
+        session.groups = session.groups.filter((g:any)=>{
+            return g.type != "DUP" || session.media.length > 1;
+        }).map((g:any)=>{
+            if(g.type == "DUP"){
+                g.mids = mids.join(" ");
+            }
+            return g;
+        });
+        if(session.groups.length == 0){
+            delete session.groups;
+        }
+    }
+
+    return sdpTransform.write(session);
+}
+
+// Destination address of a media section (connection of the media or the session), null if there is none
+export function GetSdpLegDestination(sdp:string, index:number):string|null{
+    try{
+        let session:any = sdpTransform.parse(sdp);
+        let connection = session.media[index].connection || session.connection;
+        let ip = connection.ip.split("/")[0];
+        return (IpToNumber(ip) != null) ? ip : null;
+    }catch(e){
+        return null;
+    }
+}
+
+// Sets destination address and port of the media sections, e.g. for a unicast sender before its scheduled activation
+export function SetSdpLegDestinations(sdp:string, legs:{ip:string, port:number|"auto"}[]){
+    let session:any = sdpTransform.parse(sdp);
+    legs.forEach((leg, index)=>{
+        let media = session.media[index];
+        if(!media){
+            return;
+        }
+        media.connection = {version:4, ip:leg.ip};
+        if(typeof leg.port == "number"){
+            media.port = leg.port;
+        }
+    });
+    return sdpTransform.write(session);
+}
@@ -0,0 +1,115 @@
+/*
+    NMOS Crosspoint
+    Copyright (C) 2021 Johannes Grieb
+*/
+
+import { IpToNumber, NumberToIp } from "./functions";
+
+
+// Multicast allocation for senders without (or with a duplicate) destination address.
+// Policies:
+//  sequential: first free address of the range
+//  device:     derived from crosspoint numbers, host part = device * 256 + flow (leg 2 + 128 if both legs share a range)
+//  random:     random free address of the range
+
+
+export type MulticastPolicy = "sequential" | "device" | "random";
+
+export class MulticastAllocationError extends Error {
+    constructor(message:string, range:string|null, exhausted = false) {
+        super(message);
+        this.range = range;
+        this.exhausted = exhausted;
+        // Set the prototype explicitly.
+        Object.setPrototypeOf(this, MulticastAllocationError.prototype);
+    }
+    range:string|null;
+    exhausted:boolean;
+}
+
+export interface MulticastAllocationRequest {
+    leg:number,
+    deviceNum:number,
+    flowNum:number,
+    isUsed:(ip:string)=>boolean
+}
+
+// Range type by format: raw HD, UHD, JPEG XS, audio, ANC, everything else. Falls back to the next generic range if not configured.
+export function GetMulticastRangeType(flow:any, multicastRanges:any):string|null{
+    let type = "other";
+    if(flow?.format == "urn:x-nmos:format:video"){
+        if(flow.media_type == "video/jxsv"){
+            type = "jxsv";
+        }else if((flow.frame_width || 0) * (flow.frame_height || 0) > 1920 * 1080){
+            type = "videoUhd";
+        }else{
+            type = "video";
+        }
+    }else if(flow?.format == "urn:x-nmos:format:audio"){
+        type = "audio";
+    }else if(flow?.format == "urn:x-nmos:format:data" && flow.media_type == "video/smpte291"){
+        type = "anc";
+    }
+
+    let fallback = {jxsv:"video", videoUhd:"video", anc:"other"};
+    while(type && !(multicastRanges && multicastRanges[type])){
+        type = fallback[type] || null;
+    }
+    return type;
+}
+
+// Range of a leg: leg 1 primary, leg 2 secondary
+export function GetMulticastRange(multicastRanges:any, type:string, leg:number):string|null{
+    let mode = ["primary", "secondary"][leg];
+    if(!mode || !multicastRanges || !multicastRanges[type] || typeof multicastRanges[type][mode] != "string"){
+        return null;
+    }
+    return multicastRanges[type][mode];
+}
+
+export function AllocateMulticastAddress(policy:MulticastPolicy, range:string, request:MulticastAllocationRequest, legsShareRange = false):string{
+    let network = IpToNumber(range.split("/")[0]);
+    let prefix = Number.parseInt(range.split("/")[1]);
+    if(network == null || isNaN(prefix) || prefix < 0 || prefix > 32){
+        throw new MulticastAllocationError("Invalid multicast range " + range, range);
+    }
+    let size = Math.pow(2, 32 - prefix);
+    let base = Math.floor(network / size) * size;
+
+    if(policy == "device"){
+        if(request.deviceNum < 1 || request.flowNum < 1){
+            throw new MulticastAllocationError("Sender has no crosspoint number, no address can be derived.", range);
+        }
+        let flow = request.flowNum + ((legsShareRange && request.leg == 1) ? 128 : 0);
+        if(flow > 255 || (legsShareRange && request.flowNum > 127)){
+            throw new MulticastAllocationError("Flow number " + request.flowNum + " too high to derive an address.", range);
+        }
+        let host = request.deviceNum * 256 + flow;
+        if(host >= size){
+            throw new MulticastAllocationError("Device number " + request.deviceNum + " outside of range " + range, range);
+        }
+        let ip = NumberToIp(base + host);
+        if(request.isUsed(ip)){
+            throw new MulticastAllocationError("Derived address " + ip + " is already in use.", range);
+        }
+        return ip;
+    }
+
+    if(policy == "random" && size > 1){
+        for(let i = 0; i < Math.min(size, 1000); i++){
+            let ip = NumberToIp(base + 1 + Math.floor(Math.random() * (size - 1)));
+            if(!request.isUsed(ip)){
+                return ip;
+            }
+        }
+        // almost full, the sequential search decides if there is a free address
+    }
+
+    for(let host = 1; host < size; host++){
+        let ip = NumberToIp(base + host);
+        if(!request.isUsed(ip)){
+            return ip;
+        }
+    }
+    throw new MulticastAllocationError("No free multicast address in range " + range, range, true);
+}
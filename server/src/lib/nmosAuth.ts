@@ -0,0 +1,241 @@
+/*
+    NMOS Crosspoint
+    Copyright (C) 2021 Johannes Grieb
+*/
+
+import axios from "axios";
+import { SyncLog } from "./syncLog";
+import { MdnsService } from "./mdnsService";
+import { NmosRegistryConnector } from "./nmosConnector";
+
+
+// IS-10 / BCP-003-02 client: client credentials token from the authorization server (nmos.auth.server or _nmos-auth._tcp),
+// refreshed before it expires. The token is added to requests on NMOS APIs (/x-nmos/...) of registries and of the hosts of nodes and
+// device controls known from the registry, WebSocket URLs get it as access_token. Sending it over http is logged once per host.
+
+
+const NMOS_API_PATH = /\/x-nmos\/(query|registration|node|connection|channelmapping|events)\//;
+
+export class NmosAuthorization {
+    public static instance: NmosAuthorization | null;
+
+    settings:any = null;
+
+    private serverUrl:string = "";
+    private serverPriority = Number.MAX_SAFE_INTEGER;
+    private tokenEndpoint:string = "";
+    private token:string = "";
+    private issued = 0;
+    private expires = 0;
+    private refreshTimer:any = null;
+    private requesting = false;
+    private hosts:Set<string> = new Set();
+    private httpWarned:Set<string> = new Set();
+
+    constructor(settings:any){
+        if(NmosAuthorization.instance == null){
+            NmosAuthorization.instance = this;
+        }
+        this.settings = settings;
+        if(!settings.nmos.auth.enabled){
+            return;
+        }
+
+        NmosRegistryConnector.registerHook("nodes", (id, data)=>{
+            this.addHost(data.href);
+            (data.api?.endpoints || []).forEach((e)=>this.addHost(e.protocol + "://" + e.host + ":" + e.port));
+        });
+        NmosRegistryConnector.registerHook("devices", (id, data)=>{
+            (data.controls || []).forEach((c)=>this.addHost(c.href));
+        });
+
+        axios.interceptors.request.use((config)=>{
+            if(this.token != "" && this.isAuthorizedUrl(config.url || "")){
+                config.headers.set("Authorization", "Bearer " + this.token);
+            }
+            return config;
+        });
+        axios.interceptors.response.use((response)=>response, (error)=>{
+            // Token revoked or expired early, the request fails but the next one gets a new token
+            if(error?.response?.status == 401 && NMOS_API_PATH.test(error.config?.url || "") && Date.now() - this.issued > 5000){
+                this.scheduleRefresh(0);
+            }
+            return Promise.reject(error);
+        });
+
+        if(settings.nmos.auth.server != ""){
+            this.setServer(settings.nmos.auth.server, 0);
+        }else{
+            MdnsService.registerHook((response) => {
+                this.checkMdnsResponse(response);
+            });
+            this.mdnsQuery();
+            setInterval(()=>{
+                if(this.serverUrl == ""){
+                    this.mdnsQuery();
+                }
+            }, 20000);
+        }
+    }
+
+    // Registries, peer to peer nodes and the hosts from node and device resources
+    addHost(href:string){
+        try{
+            this.hosts.add(new URL(href).hostname);
+        }catch(e){}
+    }
+
+    private isAuthorizedUrl(href:string){
+        if(!NMOS_API_PATH.test(href)){
+            return false;
+        }
+        let url:URL;
+        try{
+            url = new URL(href);
+        }catch(e){
+            return false;
+        }
+        if(!this.hosts.has(url.hostname)){
+            return false;
+        }
+        if(url.protocol == "http:" && !this.httpWarned.has(url.hostname)){
+            this.httpWarned.add(url.hostname);
+            SyncLog.log("warning", "Authorization", "Token is sent without TLS to " + url.hostname + ", BCP-003-02 requires https.");
+        }
+        return true;
+    }
+
+    // WebSocket connections (query subscriptions, IS-07) carry the token in the URL
+    addTokenToUrl(href:string){
+        if(this.token == ""){
+            return href;
+        }
+        try{
+            let url = new URL(href);
+            url.searchParams.set("access_token", this.token);
+            return url.toString();
+        }catch(e){
+            return href;
+        }
+    }
+
+    private mdnsQuery(){
+        MdnsService.query({
+            questions: [
+                {
+                    name: "_nmos-auth._tcp.local",
+                    type: "PTR",
+                    class: "IN",
+                },
+            ],
+        });
+    }
+
+    private checkMdnsResponse(response:any){
+        if(!response.answers.some((answer)=>answer.name == "_nmos-auth._tcp.local")){
+            return;
+        }
+        let ip = "";
+        let port = 0;
+        let proto = "http";
+        let priority = 100;
+        response.additionals.forEach((element) => {
+            if (element.type == "A") {
+                ip = element.data;
+            }
+            if (element.type == "SRV") {
+                port = element.data.port;
+            }
+            if (element.type == "TXT") {
+                let txtList = Array.isArray(element.data) ? element.data : [element.data];
+                txtList.forEach((txt) => {
+                    let entry = txt.toString();
+                    if (entry.startsWith("api_proto=")) {
+                        proto = entry.slice(10);
+                    }
+                    if (entry.startsWith("pri=")) {
+                        let p = Number.parseInt(entry.slice(4));
+                        if (!isNaN(p)) {
+                            priority = p;
+                        }
+                    }
+                });
+            }
+        });
+        if(ip != "" && port != 0){
+            this.setServer(proto + "://" + ip + ":" + port, priority);
+        }
+    }
+
+    private setServer(url:string, priority:number){
+        url = url.replace(/\/+$/, "");
+        if(url == this.serverUrl || priority > this.serverPriority){
+            return;
+        }
+        SyncLog.log("info", "Authorization", "Using authorization server: " + url, {priority:priority});
+        this.serverUrl = url;
+        this.serverPriority = priority;
+        this.tokenEndpoint = "";
+        this.scheduleRefresh(0);
+    }
+
+    // RFC 8414 metadata, IS-10 token endpoint as fallback
+    private async getTokenEndpoint(){
+        if(this.tokenEndpoint != ""){
+            return this.tokenEndpoint;
+        }
+        try{
+            let response = await axios.get(this.serverUrl + "/.well-known/oauth-authorization-server", {timeout:5000});
+            if(typeof response.data.token_endpoint == "string"){
+                this.tokenEndpoint = response.data.token_endpoint;
+                return this.tokenEndpoint;
+            }
+        }catch(e){
+            SyncLog.log("info", "Authorization", "No authorization server metadata on " + this.serverUrl + ", using default token endpoint.", {message:e.message});
+        }
+        return this.serverUrl + "/x-nmos/auth/v1.0/token";
+    }
+
+    private scheduleRefresh(delay:number){
+        if(this.refreshTimer){
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(()=>{
+            this.refreshTimer = null;
+            this.requestToken();
+        }, Math.max(0, delay));
+    }
+
+    private async requestToken(){
+        if(this.requesting || this.serverUrl == ""){
+            return;
+        }
+        this.requesting = true;
+        let auth = this.settings.nmos.auth;
+        try{
+            let endpoint = await this.getTokenEndpoint();
+            let body = new URLSearchParams({grant_type:"client_credentials", scope:auth.scopes.join(" ")});
+            let response = await axios.post(endpoint, body.toString(), {
+                timeout:10000,
+                headers:{"Content-Type":"application/x-www-form-urlencoded"},
+                auth:{username:auth.clientId, password:auth.clientSecret}
+            });
+            if(typeof response.data.access_token != "string"){
+                throw new Error("No access_token in response.");
+            }
+            this.token = response.data.access_token;
+            let lifetime = (typeof response.data.expires_in == "number") ? response.data.expires_in * 1000 : 3600000;
+            this.issued = Date.now();
+            this.expires = this.issued + lifetime;
+            SyncLog.log("verbose", "Authorization", "New token, expires in " + Math.round(lifetime / 1000) + "s.", {scope:response.data.scope});
+            this.scheduleRefresh(Math.max(lifetime - auth.refreshMargin, lifetime / 2));
+        }catch(e){
+            SyncLog.log("error", "Authorization", "Can not get token from " + this.serverUrl, {message:e.message, response:e.response?.data});
+            if(Date.now() > this.expires){
+                this.token = "";
+            }
+            this.scheduleRefresh(10000);
+        }
+        this.requesting = false;
+    }
+}
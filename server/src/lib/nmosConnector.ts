@@ -18,8 +18,20 @@ import * as jsonpatch from 'fast-json-patch';
 
 
 import * as sdpTransform from 'sdp-transform';
-import { CrosspointAbstraction, CrosspointConnectionSenderInfo } from "./crosspointAbstraction";
+import { CrosspointAbstraction, CrosspointActivation, CrosspointConnectionSenderInfo } from "./crosspointAbstraction";
 import { Topology } from "./topology";
+import { NmosEvents } from "./nmosEvents";
+import { CheckReceiverCaps } from "./receiverCaps";
+import { GetLegNetwork, GetSdpLegDestination, GetSdpLegParams, GetSdpLegSources, MapLegs, RewriteSdpLegs, SetSdpLegDestinations } from "./legMapping";
+import { FitTransportParams, TransportParamsError, ValidateTransportParams } from "./transportConstraints";
+import { IpInSubnet, IpToNumber, TaiToUtc, UtcToTai } from "./functions";
+import { GetSsmMode, SetSdpSourceFilter } from "./sourceFilter";
+import { ResourceHistory } from "./resourceHistory";
+import { GrainCapture, GrainReplay } from "./grainCapture";
+import { ConnectionStub } from "./connectionStub";
+import { AcceptedByFilterRules, GetSubscriptionParams, HasFilterRules } from "./queryFilter";
+import { NmosAuthorization } from "./nmosAuth";
+import { NmosTls } from "./nmosTls";
 
 const fs = require("fs");
 
@@ -30,6 +42,7 @@ export class NmosRegistryConnector {
     static instance:null|NmosRegistryConnector = null;
     public syncNmos: SyncObject;
     public syncConnectionState: SyncObject;
+    public syncScheduledActivations: SyncObject;
 
     public static registerHook(type:"nodes"|"devices"|"flows"|"senders"|"receivers"|"sources"|"sendersManifestDetail", callback: (id:string, data:any) => any){
         this.hookCallbackList[type].push(callback);
@@ -65,41 +78,27 @@ export class NmosRegistryConnector {
     }
 
     settings:any = {};
+    private capture:GrainCapture|null = null;
+    private connectionStub:ConnectionStub|null = null;
 
-    constructor(config:any, loaddev = false) {
+    constructor(config:any) {
         this.settings = config;
         NmosRegistryConnector.instance = this;
         this.syncNmos = new SyncObject("nmos", this.nmosState);
         this.syncConnectionState = new SyncObject("nmosConnectionState");
+        this.syncScheduledActivations = new SyncObject("scheduledActivations", this.scheduledActivations);
 
         this.registryVersionList = this.settings.nmos.registryVersions;
         this.connectVersionList = this.settings.nmos.connectVersions
 
-        // TODO dev cleanup
-        //if(loaddev){
-        if(false){
-            try {
-                let rawFile = fs.readFileSync("./state/devnmosstate/devnmosstate.json");
-                let nmosDev = JSON.parse(rawFile);
-
-                for(let type in nmosDev){
-                    for(let path in nmosDev[type]){
-                        let postData = nmosDev[type][path];
-                            NmosRegistryConnector.modifierCallbackList[type].forEach((f)=>{
-                                postData = f(path, postData);
-                            })
-                            this.nmosState[type][path] = postData;
-                            NmosRegistryConnector.hookCallbackList[type].forEach((f)=>{
-                                f(path, postData);
-                            })
-                    }
-                }
-
-            } catch (e) {}
-            this.syncNmos.setState(this.nmosState);
-            this.updateCrosspoint();
+        if(this.settings.replay.file != ""){
+            // Offline: no registries and no devices, the capture is fed into updateState
+            this.startReplay();
+            return;
+        }
+        if(this.settings.capture.enabled){
+            this.capture = new GrainCapture(this.settings.capture.path);
         }
-        // ----- dev cleanup
 
         
         this.settings.staticNmosRegistries.forEach((staticRegistry) => {
@@ -107,9 +106,10 @@ export class NmosRegistryConnector {
                 let registry: NmosRegistry = {
                     ip: staticRegistry.ip,
                     port: staticRegistry.port,
-                    priority: staticRegistry.priority,
+                    priority: (typeof staticRegistry.priority == "number" ? staticRegistry.priority : 100),
                     source: "static",
                     domain: staticRegistry.domain,
+                    protocol: (staticRegistry.protocol == "https" ? "https" : "http"),
                 };
                 this.addRegistry(registry);
                 SyncLog.log("info","NMOS Settings","Adding Static Registry: "+ JSON.stringify(staticRegistry) );
@@ -125,13 +125,22 @@ export class NmosRegistryConnector {
         },5000);
         this.mdnsQueryInterval = setInterval(() => {
             this.mdnsQuery();
+            if (this.peerToPeerActive) {
+                this.mdnsQueryNodes();
+            }
         }, 20000);
 
+        if (this.settings.nmos.peerToPeer != "off") {
+            setInterval(() => {
+                this.checkPeerToPeer();
+            }, 5000);
+        }
+
         MdnsService.registerHook((response) => {
             response.answers.forEach((answer) => {
                 
                 if (answer.name == "_nmos-registration._tcp.local") {
-                    let registry: NmosRegistry = { ip: "0.0.0.0", port: 0, priority: 1000, source: "mdns", domain: "" };
+                    let registry: NmosRegistry = { ip: "0.0.0.0", port: 0, priority: 1000, source: "mdns", domain: "", protocol: "http" };
                     response.additionals.forEach((element) => {
                         if (element.type == "A") {
                             registry.ip = element.data;
@@ -140,15 +149,298 @@ export class NmosRegistryConnector {
                             registry.port = element.data.port;
                             registry.domain = element.data.target;
                         }
+                        if (element.type == "TXT") {
+                            let txtList = Array.isArray(element.data) ? element.data : [element.data];
+                            txtList.forEach((txt) => {
+                                let entry = txt.toString();
+                                if (entry.startsWith("pri=")) {
+                                    let priority = Number.parseInt(entry.slice(4));
+                                    if (!isNaN(priority)) {
+                                        registry.priority = priority;
+                                    }
+                                }
+                                if (entry == "api_proto=https") {
+                                    registry.protocol = "https";
+                                }
+                            });
+                        }
                     });
                     if (registry.port != 0 && registry.ip != "0.0.0.0") {
                         this.addRegistry(registry);
                     }
                 }
+
+                if (answer.name == "_nmos-node._tcp.local" && this.peerToPeerActive) {
+                    let ip = "";
+                    let port = 0;
+                    let versions: string[] = [];
+                    let protocol: "http" | "https" = "http";
+                    response.additionals.forEach((element) => {
+                        if (element.type == "A") {
+                            ip = element.data;
+                        }
+                        if (element.type == "SRV") {
+                            port = element.data.port;
+                        }
+                        if (element.type == "TXT") {
+                            let txtList = Array.isArray(element.data) ? element.data : [element.data];
+                            txtList.forEach((txt) => {
+                                let entry = txt.toString();
+                                if (entry.startsWith("api_ver=")) {
+                                    versions = entry.slice(8).split(",");
+                                }
+                                if (entry == "api_proto=https") {
+                                    protocol = "https";
+                                }
+                            });
+                        }
+                    });
+                    if (port != 0 && ip != "") {
+                        this.addPeerToPeerNode(ip, port, versions, protocol);
+                    }
+                }
+            });
+        });
+    }
+
+    // ----- Replay of a grain capture, IS-05 requests go to a local stub
+
+    private startReplay(){
+        this.connectionStub = new ConnectionStub(this.settings.replay.stubPort, (type, id)=>{
+            return this.nmosState[type]?.[id] || null;
+        }, (type, id, active)=>{
+            this.replayActivation(type, id, active);
+        });
+
+        NmosRegistryConnector.registerModifier("devices", (id, data)=>{
+            data.controls = (data.controls || []).map((c)=>{
+                return {...c, href:this.connectionStub.rewriteHref(c.href)};
             });
+            return data;
+        });
+        NmosRegistryConnector.registerModifier("senders", (id, data)=>{
+            if(data.manifest_href){
+                data.manifest_href = this.connectionStub.transportFileHref(id);
+            }
+            return data;
+        });
+
+        let replay = new GrainReplay(this.settings.replay.file, this.settings.replay.speed, this.settings.replay.loop, (entry)=>{
+            switch(entry.kind){
+                case "grain":
+                    if(this.activeRegistry == null){
+                        this.switchActiveRegistry(entry.registry);
+                    }
+                    if(entry.resync){
+                        this.resyncSubscription(entry.data, entry.registry, entry.resource, entry.version);
+                    }
+                    this.updateState(entry.data, entry.version, entry.registry);
+                    break;
+                case "activeRegistry":
+                    this.switchActiveRegistry(entry.registry);
+                    break;
+                case "sdp":
+                    this.connectionStub.setTransportFile(entry.senderId, entry.data);
+                    break;
+                case "senderActive":
+                    this.connectionStub.setActive("senders", entry.senderId, entry.data);
+                    break;
+            }
+        });
+        replay.start();
+    }
+
+    // A device would update its registration after an activation, the stub does it with a new version
+    private replayActivation(type:string, id:string, active:any){
+        let resource = this.nmosState[type][id];
+        if(!resource){
+            return;
+        }
+        let post = structuredClone(resource);
+        post.version = UtcToTai(Date.now());
+        if(type == "senders"){
+            post.subscription = {receiver_id:active.receiver_id || null, active:active.master_enable};
+        }else{
+            post.subscription = {sender_id:active.sender_id || null, active:active.master_enable};
+        }
+        this.updateState({ grain: { topic: "/" + type, data: [{ path: id, post: post }] } }, resource._sourceVersion, resource._sourceRegistry);
+    }
+
+    private mdnsQueryNodes() {
+        MdnsService.query({
+            questions: [
+                {
+                    name: "_nmos-node._tcp.local",
+                    type: "PTR",
+                    class: "IN",
+                },
+            ],
+        });
+    }
+
+    // ----- Peer to peer discovery, Node APIs are polled directly when no registry is available
+
+    private peerToPeerActive = false;
+    private peerToPeerTimer: any = null;
+    private peerToPeerNodes: { [endpoint: string]: PeerToPeerNode } = {};
+    private peerToPeerNodeOwner: { [nodeId: string]: string } = {};
+    private noRegistrySince = Date.now();
+    private peerToPeerResourceOrder = ["nodes", "devices", "sources", "flows", "senders", "receivers"];
+
+    private checkPeerToPeer() {
+        let mode = this.settings.nmos.peerToPeer;
+        let registryUp = this.activeRegistry != null && this.activeRegistry != PEER_TO_PEER_SOURCE && this.isRegistryUp(this.activeRegistry);
+
+        if (registryUp && mode != "always") {
+            this.noRegistrySince = Date.now();
+            if (this.peerToPeerActive) {
+                this.stopPeerToPeer();
+            }
+            return;
+        }
+
+        if (!this.peerToPeerActive && (mode == "always" || Date.now() - this.noRegistrySince > this.settings.nmos.peerToPeerTimeout)) {
+            this.startPeerToPeer();
+        }
+    }
+
+    private startPeerToPeer() {
+        SyncLog.log("info", "NMOS", "No Registry available, starting peer to peer discovery.");
+        this.peerToPeerActive = true;
+        this.switchActiveRegistry(PEER_TO_PEER_SOURCE);
+        this.mdnsQueryNodes();
+        this.peerToPeerTimer = setInterval(() => {
+            this.pollPeerToPeerNodes();
+        }, this.settings.nmos.peerToPeerPollInterval);
+    }
+
+    private stopPeerToPeer() {
+        SyncLog.log("info", "NMOS", "Registry available, stopping peer to peer discovery.");
+        this.peerToPeerActive = false;
+        clearInterval(this.peerToPeerTimer);
+        this.peerToPeerTimer = null;
+        this.peerToPeerNodes = {};
+        this.peerToPeerNodeOwner = {};
+        delete this.registryCache[PEER_TO_PEER_SOURCE];
+        this.updateSyncConnectionState();
+    }
+
+    private addPeerToPeerNode(ip: string, port: number, versions: string[], protocol: "http" | "https") {
+        let endpoint = ip + ":" + port;
+        if (this.peerToPeerNodes.hasOwnProperty(endpoint)) {
+            return;
+        }
+        let version = this.registryVersionList.find((v) => versions.includes(v)) || "";
+        NmosAuthorization.instance?.addHost(protocol + "://" + endpoint);
+        this.peerToPeerNodes[endpoint] = {
+            endpoint: endpoint,
+            url: protocol + "://" + endpoint,
+            version: version,
+            nodeId: "",
+            failures: 0,
+            polling: false,
+            resources: { nodes: {}, devices: {}, sources: {}, flows: {}, senders: {}, receivers: {} },
+        };
+        SyncLog.log("info", "NMOS", "Peer to peer Node found: " + endpoint, { versions });
+        this.pollPeerToPeerNode(this.peerToPeerNodes[endpoint]);
+    }
+
+    private pollPeerToPeerNodes() {
+        Object.values(this.peerToPeerNodes).forEach((node) => {
+            this.pollPeerToPeerNode(node);
         });
     }
 
+    private async pollPeerToPeerNode(node: PeerToPeerNode) {
+        if (node.polling || !this.peerToPeerActive) {
+            return;
+        }
+        node.polling = true;
+        try {
+            let versions = node.version != "" ? [node.version] : this.registryVersionList;
+            let self: any = null;
+            for (let version of versions) {
+                try {
+                    self = await axios.get(node.url + "/x-nmos/node/" + version + "/self", { timeout: 5000 });
+                    node.version = version;
+                    break;
+                } catch (e) {
+                    if (versions.indexOf(version) == versions.length - 1) {
+                        throw e;
+                    }
+                }
+            }
+
+            let base = node.url + "/x-nmos/node/" + node.version + "/";
+            let lists: any = { nodes: [self.data] };
+            for (let type of this.peerToPeerResourceOrder) {
+                if (type != "nodes") {
+                    let response = await axios.get(base + type + "/", { timeout: 5000 });
+                    lists[type] = response.data;
+                }
+            }
+
+            // Nodes announced on multiple interfaces are only used once
+            node.nodeId = self.data.id;
+            let owner = this.peerToPeerNodes[this.peerToPeerNodeOwner[node.nodeId]];
+            if (owner && owner !== node && owner.failures < 3) {
+                node.failures = 0;
+                return;
+            }
+            if (owner && owner !== node) {
+                node.resources = owner.resources;
+                owner.resources = { nodes: {}, devices: {}, sources: {}, flows: {}, senders: {}, receivers: {} };
+            }
+            this.peerToPeerNodeOwner[node.nodeId] = node.endpoint;
+
+            if (node.failures >= 3) {
+                SyncLog.log("info", "NMOS", "Peer to peer Node reachable again: " + node.endpoint);
+            }
+            node.failures = 0;
+
+            for (let type of this.peerToPeerResourceOrder) {
+                let data = [];
+                let seen = new Set<string>();
+                lists[type].forEach((resource) => {
+                    seen.add(resource.id);
+                    if (node.resources[type][resource.id] != resource.version) {
+                        node.resources[type][resource.id] = resource.version;
+                        data.push({ path: resource.id, post: resource });
+                    }
+                });
+                for (let id of Object.keys(node.resources[type])) {
+                    if (!seen.has(id)) {
+                        delete node.resources[type][id];
+                        data.push({ path: id });
+                    }
+                }
+                if (data.length > 0) {
+                    this.updateState({ grain: { topic: "/" + type, data: data } }, node.version, PEER_TO_PEER_SOURCE);
+                }
+            }
+        } catch (e) {
+            node.failures++;
+            if (node.failures == 3) {
+                SyncLog.log("warning", "NMOS", "Peer to peer Node unreachable: " + node.endpoint, { message: e.message });
+                this.removePeerToPeerResources(node);
+            }
+        } finally {
+            node.polling = false;
+        }
+    }
+
+    private removePeerToPeerResources(node: PeerToPeerNode) {
+        for (let type of [...this.peerToPeerResourceOrder].reverse()) {
+            let data = Object.keys(node.resources[type]).map((id) => {
+                return { path: id };
+            });
+            node.resources[type] = {};
+            if (data.length > 0) {
+                this.updateState({ grain: { topic: "/" + type, data: data } }, node.version, PEER_TO_PEER_SOURCE);
+            }
+        }
+    }
+
     private mdnsQuery() {
         MdnsService.query({
             questions: [
@@ -177,6 +469,7 @@ export class NmosRegistryConnector {
 
         if (addNew) {
             this.nmosRegistryList.push(registry);
+            NmosAuthorization.instance?.addHost(this.getRegistryUrl(registry));
             SyncLog.log("info","NMOS Settings","Adding Registry: "+registry.ip + ":"+registry.port );
             this.connectRegistry(registry);
 
@@ -187,16 +480,18 @@ export class NmosRegistryConnector {
         }
 
         this.updateSyncConnectionState();
+        this.selectActiveRegistry();
     }
 
     // Public method to add manual NMOS registry
-    public addManualRegistry(ip: string, port: number) {
+    public addManualRegistry(ip: string, port: number, protocol: "http" | "https" = "http") {
         const registry: NmosRegistry = {
             ip: ip,
             port: port,
             priority: 100, // Higher priority than mdns discoveries
             source: "manual",
-            domain: ""
+            domain: "",
+            protocol: protocol
         };
         
         SyncLog.log("info", "NMOS Settings", "Adding Manual Registry: " + ip + ":" + port);
@@ -206,7 +501,7 @@ export class NmosRegistryConnector {
     connectRegistry(registry: NmosRegistry) {
         // TODO: disconnects and reconnects
 
-        const url = "http://" + registry.ip + ":" + registry.port + "";
+        const url = this.getRegistryUrl(registry);
         this.getSubscription(url, "/nodes");
         this.getSubscription(url, "/devices");
         this.getSubscription(url, "/sources");
@@ -222,6 +517,201 @@ export class NmosRegistryConnector {
     private channelmappingVersionList = ["v1.0"];
     private nmosRegistryList: NmosRegistry[] = [];
 
+    // Only the active registry feeds nmosState, all registries are cached for a fast failover
+    private activeRegistry: string | null = null;
+    private registryUpSince: { [url: string]: number } = {};
+    private registrySelectTimer: any = null;
+    private registryCache: { [url: string]: { [version: string]: { [type: string]: { [path: string]: any } } } } = {};
+    private registryResourceTypes = ["nodes", "devices", "sources", "senders", "receivers", "flows"];
+
+    private getRegistryUrl(registry: NmosRegistry) {
+        return registry.protocol + "://" + registry.ip + ":" + registry.port + "";
+    }
+
+    private isRegistryUp(url: string) {
+        return this.registryResourceTypes.every((e) => {
+            return Object.keys(this.connections).some((c) => {
+                return c.startsWith(url + "_/" + e + "_") && this.connections[c].ws.readyState == WebSocket.OPEN;
+            });
+        });
+    }
+
+    private selectActiveRegistry() {
+        if (this.settings.nmos.peerToPeer == "always") {
+            return;
+        }
+        let now = Date.now();
+        let candidates: { url: string, priority: number }[] = [];
+        this.nmosRegistryList.forEach((registry) => {
+            let url = this.getRegistryUrl(registry);
+            if (this.isRegistryUp(url)) {
+                if (!this.registryUpSince[url]) {
+                    this.registryUpSince[url] = now;
+                }
+                candidates.push({ url, priority: registry.priority });
+            } else {
+                delete this.registryUpSince[url];
+            }
+        });
+
+        if (candidates.length == 0) {
+            // Nothing reachable, keep the last known state
+            return;
+        }
+        candidates.sort((a, b) => a.priority - b.priority);
+
+        let preferred = candidates[0].url;
+        if (preferred == this.activeRegistry) {
+            return;
+        }
+
+        if (candidates.some((c) => c.url == this.activeRegistry)) {
+            // Active registry is still fine, only fail back when the preferred one is up for a while
+            let wait = this.registryUpSince[preferred] + this.settings.nmos.registryFailbackDelay - now;
+            if (wait > 0) {
+                if (!this.registrySelectTimer) {
+                    this.registrySelectTimer = setTimeout(() => {
+                        this.registrySelectTimer = null;
+                        this.selectActiveRegistry();
+                    }, wait);
+                }
+                return;
+            }
+        }
+
+        this.switchActiveRegistry(preferred);
+    }
+
+    private switchActiveRegistry(url: string) {
+        SyncLog.log("info", "NMOS", "Active Registry: " + url, { previous: this.activeRegistry });
+        this.capture?.record({ kind: "activeRegistry", registry: url });
+        this.activeRegistry = url;
+
+        // Drop everything from the previous registry
+        this.registryResourceTypes.forEach((type) => {
+            for (let path of Object.keys(this.nmosState[type])) {
+                if (this.nmosState[type][path]["_sourceRegistry"] != url) {
+                    delete this.nmosState[type][path];
+                    if (type == "senders") {
+                        delete this.nmosState.sendersManifestDetail[path];
+                        delete this.nmosState.senderActiveData[path];
+                    }
+                }
+            }
+        });
+
+        // Replay the cached resources of the new registry, least preferred version first
+        this.replayRegistryCache(url, () => true);
+
+        this.syncNmos.setState(this.nmosState);
+        this.updateCrosspoint();
+        this.updateSyncConnectionState();
+    }
+
+    private replayRegistryCache(url: string, select: (type: string, path: string, resource: any, version: string) => boolean) {
+        let cache = this.registryCache[url] || {};
+        [...this.registryVersionList].reverse().forEach((version) => {
+            if (!cache[version]) {
+                return;
+            }
+            this.registryResourceTypes.forEach((type) => {
+                if (!cache[version][type]) {
+                    return;
+                }
+                let data = Object.keys(cache[version][type]).filter((path) => {
+                    return select(type, path, cache[version][type][path], version);
+                }).map((path) => {
+                    return { path: path, post: structuredClone(cache[version][type][path]) };
+                });
+                if (data.length > 0) {
+                    this.updateState({ grain: { topic: "/" + type, data: data } }, version, url);
+                }
+            });
+        });
+    }
+
+    // ----- Client side include/exclude rules (nmos.queryFilter)
+
+    private queryFilterVerdicts: { [id: string]: boolean } = {};
+    private queryFilterTimer: any = null;
+
+    private acceptedByQueryFilter(type: string, resource: any, registryUrl: string, version: string) {
+        let queryFilter = this.settings.nmos.queryFilter;
+        if (!HasFilterRules(queryFilter)) {
+            return true;
+        }
+        let cache = this.registryCache[registryUrl]?.[version] || {};
+        let chain = [resource];
+        let device = null;
+        if (type == "devices") {
+            device = resource;
+        } else if (type != "nodes") {
+            device = cache.devices?.[resource.device_id] || null;
+            chain.push(device);
+        }
+        if (type != "nodes") {
+            chain.push(device ? cache.nodes?.[device.node_id] : null);
+        }
+        let accepted = AcceptedByFilterRules(queryFilter, chain);
+
+        // Children are checked again when a node or device changes its verdict (or arrives after them)
+        if ((type == "nodes" || type == "devices") && this.queryFilterVerdicts[resource.id] !== accepted) {
+            this.queryFilterVerdicts[resource.id] = accepted;
+            this.scheduleQueryFilterRefresh();
+        }
+        return accepted;
+    }
+
+    private scheduleQueryFilterRefresh() {
+        if (this.queryFilterTimer) {
+            return;
+        }
+        this.queryFilterTimer = setTimeout(() => {
+            this.queryFilterTimer = null;
+            if (this.activeRegistry == null) {
+                return;
+            }
+            let url = this.activeRegistry;
+            // only resources that have to be added or removed
+            this.replayRegistryCache(url, (type, path, resource, version) => {
+                return this.acceptedByQueryFilter(type, resource, url, version) != this.nmosState[type].hasOwnProperty(path);
+            });
+        }, 1000);
+    }
+
+    private removeFilteredResource(type: string, path: string) {
+        delete this.nmosState[type][path];
+        if (type == "senders") {
+            delete this.nmosState.sendersManifestDetail[path];
+            delete this.nmosState.senderActiveData[path];
+        }
+    }
+
+    private updateRegistryCache(message: any, type: string, version: string, registryUrl: string) {
+        if (!this.registryResourceTypes.includes(type)) {
+            return;
+        }
+        if (!this.registryCache[registryUrl]) {
+            this.registryCache[registryUrl] = {};
+        }
+        if (!this.registryCache[registryUrl][version]) {
+            this.registryCache[registryUrl][version] = {};
+        }
+        if (!this.registryCache[registryUrl][version][type]) {
+            this.registryCache[registryUrl][version][type] = {};
+        }
+        let cache = this.registryCache[registryUrl][version][type];
+        message.grain.data.forEach((g: any) => {
+            if (g.hasOwnProperty("path") && typeof g.path == "string") {
+                if (g.hasOwnProperty("post") && typeof g.post == "object") {
+                    cache[g.path] = structuredClone(g.post);
+                } else if (!g.hasOwnProperty("post")) {
+                    delete cache[g.path];
+                }
+            }
+        });
+    }
+
 
     updateCrosspointTimer:any = null;
     updateCrosspointLimit = 0;
@@ -244,6 +734,9 @@ export class NmosRegistryConnector {
                 CrosspointAbstraction.instance.updateFromNmos(this.nmosState);
                 Topology.instance.updateDevicesFromNmos(this.nmosState);
             }
+            if(NmosEvents.instance){
+                NmosEvents.instance.updateFromNmos(this.nmosState);
+            }
         },100);
     }
 
@@ -255,11 +748,13 @@ export class NmosRegistryConnector {
         flows: {},
         nodes: {},
         senderActiveData:{},
-        channelmapping:{},
         sendersManifestDetail :{}
     };
     private connections = {};
 
+    private scheduledActivations:{activations:{[receiverId:string]:ScheduledActivation}} = {activations:{}};
+    private scheduledActivationTimers = {};
+
 
     private getSubscription(nmosRegistryUrl: string, resource: string) {
         this.registryVersionList.forEach((version)=>{
@@ -270,7 +765,7 @@ export class NmosRegistryConnector {
     private getVersionSubscription(nmosRegistryUrl: string, resource: string, version:string){
         axios.post(nmosRegistryUrl + "/x-nmos/query/" + version + "/subscriptions", {
             resource_path: resource,
-            params: {},
+            params: GetSubscriptionParams(this.settings.nmos.queryFilter, resource),
             persist: false,
             max_update_rate_ms: 50,
         }).then((response: any) => {
@@ -286,7 +781,8 @@ export class NmosRegistryConnector {
             this.connections[fullResource] = {
                 version,
                 subscription,
-                ws: new WebSocket(subscription.ws_href),
+                ws: new WebSocket(NmosAuthorization.instance ? NmosAuthorization.instance.addTokenToUrl(subscription.ws_href) : subscription.ws_href, NmosTls.instance?.getWebSocketOptions(subscription.ws_href)),
+                synced: false,
             };
 
             this.connections[fullResource].ws.error = () => {
@@ -297,17 +793,27 @@ export class NmosRegistryConnector {
                 this.connections[fullResource].ws.onmessage = (message) => {};
                 
                 SyncLog.log("error",  "NMOS","Closed subscription to Registry: " + nmosRegistryUrl + ", " + resource + ", " + version );
+                this.startStaleTimer(nmosRegistryUrl, resource, version);
                 setTimeout(()=>{
                     this.getVersionSubscription(nmosRegistryUrl,resource,version );
                 },1000)
                 this.updateSyncConnectionState();
+                this.selectActiveRegistry();
             };
             this.connections[fullResource].ws.onopen = () => {
                 this.updateSyncConnectionState();
+                this.selectActiveRegistry();
             };
 
             this.connections[fullResource].ws.onmessage = (message) => {
-                this.updateState(JSON.parse(message.data),version);
+                let data = JSON.parse(message.data);
+                this.capture?.record({ kind: "grain", registry: nmosRegistryUrl, version, resource, resync: !this.connections[fullResource].synced, data });
+                if(!this.connections[fullResource].synced){
+                    // First grain of a new subscription contains all resources
+                    this.connections[fullResource].synced = true;
+                    this.resyncSubscription(data, nmosRegistryUrl, resource, version);
+                }
+                this.updateState(data,version,nmosRegistryUrl);
             };
             
             SyncLog.log("info",  "NMOS","Subscribed to Registry: " + nmosRegistryUrl + ", " + resource + ", " + version );
@@ -324,6 +830,91 @@ export class NmosRegistryConnector {
         });
     }
 
+    private staleTimers = {};
+
+    // Resources stay in place while a subscription reconnects, after the grace period they are marked as stale
+    private startStaleTimer(nmosRegistryUrl: string, resource: string, version:string){
+        let fullResource = nmosRegistryUrl + "_" + resource + "_" + version;
+        if(this.staleTimers[fullResource]){
+            return;
+        }
+        this.staleTimers[fullResource] = setTimeout(()=>{
+            this.staleTimers[fullResource] = null;
+            this.markStale(nmosRegistryUrl, resource.split("/").join(""), version);
+        }, this.settings.nmos.staleGracePeriod);
+    }
+
+    private markStale(nmosRegistryUrl: string, type: string, version:string){
+        if(!this.nmosState[type]){
+            return;
+        }
+        let count = 0;
+        for(let path in this.nmosState[type]){
+            let item = this.nmosState[type][path];
+            if(item["_sourceRegistry"] == nmosRegistryUrl && item["_sourceVersion"] == version && !item["_stale"]){
+                item["_stale"] = true;
+                count++;
+            }
+        }
+        if(count > 0){
+            SyncLog.log("warning", "NMOS", "Marked " + count + " " + type + " as stale, no subscription on Registry: " + nmosRegistryUrl + ", " + version);
+            this.syncNmos.setState(this.nmosState);
+            this.updateCrosspoint();
+        }
+    }
+
+    // Removes resources which are not part of the initial grain of a new subscription
+    private resyncSubscription(message: any, nmosRegistryUrl: string, resource: string, version:string){
+        let fullResource = nmosRegistryUrl + "_" + resource + "_" + version;
+        let type = resource.split("/").join("");
+        if(this.staleTimers[fullResource]){
+            clearTimeout(this.staleTimers[fullResource]);
+            this.staleTimers[fullResource] = null;
+        }
+
+        let present = new Set<string>();
+        try{
+            message.grain.data.forEach((g: any) => {
+                if (g.hasOwnProperty("post")) {
+                    present.add(g.path);
+                }
+            });
+        }catch(e){
+            return;
+        }
+
+        try{
+            let cache = this.registryCache[nmosRegistryUrl][version][type];
+            for(let path of Object.keys(cache)){
+                if(!present.has(path)){
+                    delete cache[path];
+                }
+            }
+        }catch(e){}
+
+        if(nmosRegistryUrl != this.activeRegistry || !this.nmosState[type]){
+            return;
+        }
+
+        let removed = 0;
+        for(let path of Object.keys(this.nmosState[type])){
+            let item = this.nmosState[type][path];
+            if(item["_sourceRegistry"] == nmosRegistryUrl && item["_sourceVersion"] == version && !present.has(path)){
+                delete this.nmosState[type][path];
+                if(type == "senders"){
+                    delete this.nmosState.sendersManifestDetail[path];
+                    delete this.nmosState.senderActiveData[path];
+                }
+                removed++;
+            }
+        }
+        if(removed > 0){
+            SyncLog.log("info", "NMOS", "Removed " + removed + " " + type + " not present after resync with Registry: " + nmosRegistryUrl + ", " + version);
+            this.syncNmos.setState(this.nmosState);
+            this.updateCrosspoint();
+        }
+    }
+
     private versionIsPrefered(oldVersion:string, newVersion:string, registry=true){
         let list = this.registryVersionList;
         if(!registry){
@@ -339,7 +930,7 @@ export class NmosRegistryConnector {
     }
 
     updateNewNmosItemTimer:any|null = null;
-    private updateState(message: any, version:string) {
+    private updateState(message: any, version:string, registryUrl:string) {
         //console.log("updates from registry: " + message.type)
         let newItem = false;
         let type = "";
@@ -348,7 +939,14 @@ export class NmosRegistryConnector {
         try {
             type = (message.grain.topic as string).split("/").join("");
         } catch (e) {}
+
+        this.updateRegistryCache(message, type, version, registryUrl);
+        if(registryUrl != this.activeRegistry){
+            // Standby registry, only cached
+            return;
+        }
         //console.log("updates from registry: " +  (message.grain.topic as string) + " > " + type)
+        let filtered = new Set<string>();
         if (this.nmosState[type]) {
             //console.log(JSON.stringify(message,null, 2))
             message.grain.data.forEach((g: any) => {
@@ -356,7 +954,13 @@ export class NmosRegistryConnector {
                     if (g.hasOwnProperty("post")) {
                         // add or update element
                         if (typeof g.post == "object") {
-                            if(this.nmosState[type][g.path] && !this.versionIsPrefered(this.nmosState[type][g.path]["_sourceVersion"], version)){
+                            if(!this.acceptedByQueryFilter(type, g.post, registryUrl, version)){
+                                filtered.add(g.path);
+                                if(this.nmosState[type].hasOwnProperty(g.path)){
+                                    this.removeFilteredResource(type, g.path);
+                                    changes = true;
+                                }
+                            }else if(this.nmosState[type][g.path] && !this.versionIsPrefered(this.nmosState[type][g.path]["_sourceVersion"], version)){
                                 // do not update
                             }else{
                                 let postData = g.post;
@@ -371,13 +975,26 @@ export class NmosRegistryConnector {
                                 }
 
                                 postData["_sourceVersion"] = version;
+                                postData["_sourceRegistry"] = registryUrl;
+                                try{
+                                    postData["_sourceSubscription"] = this.connections[registryUrl + "_/" + type + "_" + version].subscription.id;
+                                }catch(e){
+                                    postData["_sourceSubscription"] = "";
+                                }
 
                                 NmosRegistryConnector.hookCallbackList[type].forEach((f)=>{
                                     f(g.path, postData);
                                 })
 
+                                let diff = null;
+                                if(this.nmosState[type].hasOwnProperty(g.path)){
+                                    diff = jsonpatch.compare(this.nmosState[type][g.path], postData);
+                                    ResourceHistory.instance?.recordResource(type, g.path, "update", postData, diff, registryUrl, version);
+                                }else{
+                                    ResourceHistory.instance?.recordResource(type, g.path, "create", postData, [], registryUrl, version);
+                                }
+
                                 if(!newItem){
-                                    let diff = jsonpatch.compare(this.nmosState[type][g.path], postData);
                                     if(diff.length == 0){
                                         // nothing
                                     }else if(diff.length == 1 &&  diff[0].op == "replace" && diff[0].path == "/version"){
@@ -392,10 +1009,6 @@ export class NmosRegistryConnector {
                                     
                                 }
 
-                                if(changes && type == "devices"){
-                                    this.loadChannelMaping(postData);
-                                }
-
                                 this.nmosState[type][g.path] = postData;
                                 
                             }
@@ -405,6 +1018,7 @@ export class NmosRegistryConnector {
                         // remove element
                         try {
                             if(this.nmosState[type][g.path]["_sourceVersion"] == version){
+                                ResourceHistory.instance?.recordResource(type, g.path, "delete", this.nmosState[type][g.path], [], registryUrl, version);
                                 delete this.nmosState[type][g.path];
                                 changes = true;
                             }
@@ -437,7 +1051,9 @@ export class NmosRegistryConnector {
 
         
                 message.grain.data.forEach((g: any) => {
-
+                    if (filtered.has(g.path)) {
+                        return;
+                    }
 
                     if (type == "senders" || type == "flows") {
                         setTimeout(()=>{
@@ -460,66 +1076,19 @@ export class NmosRegistryConnector {
 
     }
 
-    async loadChannelMaping(postData:any){
-        let cmLoaded = false;
-        for(let c of postData.controls){
-            // TODO: other versions
-            if(c.type=="urn:x-nmos:control:cm-ctrl/v1.0"){
-                try{
-                    let io = await axios.get(c.href + "/io");
-                    let map = await axios.get(c.href + "/map/active");
+    getSenderManifestData(type:string, g:any){
+        if (g.hasOwnProperty("path") && typeof g.path == "string") {
+            if (g.hasOwnProperty("post")) {
+                // add or update element
+                if (typeof g.post == "object") {
 
-                    for(let k in io.data.outputs){
+                    let manifest_href = "";
+                    let active = false;
+                    let senderId = "";
+                    let label = "";
 
-                        let data = io.data.outputs[k];
-                        if(data.source_id == null){
-                            data["receivers"] = [];
-
-                            
-                            for(let inId of io.data.outputs[k].caps.routable_inputs){
-                                try{
-                                    if(io.data.inputs[inId].parent.type = "receiver"){
-                                        data["receivers"].push(io.data.inputs[inId].parent.id)
-                                    }
-                                }catch(e){}
-                            }
-                            
-                            if(data.receivers.length > 0){
-                                this.nmosState.channelmapping[k] = data;
-                            }
-                        }
-                    }
-
-                
-                    cmLoaded = true;
-                    
-
-                }catch(e){
-                    //console.log(e);
-                }
-            }
-        }
-
-        this.syncNmos.setState(this.nmosState);
-        this.updateCrosspoint();
-
-    }
-
-
-
-    getSenderManifestData(type:string, g:any){
-        if (g.hasOwnProperty("path") && typeof g.path == "string") {
-            if (g.hasOwnProperty("post")) {
-                // add or update element
-                if (typeof g.post == "object") {
-
-                    let manifest_href = "";
-                    let active = false;
-                    let senderId = "";
-                    let label = "";
-
-                    let source:any = null;
-                    try{
+                    let source:any = null;
+                    try{
 
                         if (type == "senders") {
                             source = g.post;
@@ -544,6 +1113,7 @@ export class NmosRegistryConnector {
                     if (manifest_href && active && senderId) {
                         //console.log("----- load manifest for "+label)
                         axios.get(g.post.manifest_href).then(response => {
+                            this.capture?.record({kind:"sdp", senderId:senderId, data:response.data});
                             if(response.data.length > 10){
                                 // TODO Check for BAD SDP Files, is this already enough, more than 10 chars and more than 0 flows
                                 let sdp = sdpTransform.parse(response.data);
@@ -558,6 +1128,11 @@ export class NmosRegistryConnector {
                                 }else{
                                     if(this.nmosState["sendersManifestDetail"][senderId] && this.nmosState["sendersManifestDetail"][senderId]._RAWSDP && this.nmosState["sendersManifestDetail"][senderId]._RAWSDP.length > 10 ){
                                         if(this.nmosState["sendersManifestDetail"][senderId]._RAWSDP != sdp["_RAWSDP"]){
+                                            let previous = {...this.nmosState["sendersManifestDetail"][senderId]};
+                                            let current:any = {...sdp};
+                                            delete previous._RAWSDP;
+                                            delete current._RAWSDP;
+                                            ResourceHistory.instance?.recordSdp(senderId, this.nmosState.senders[senderId]?._sourceRegistry || "", jsonpatch.compare(previous, current));
                                             this.reconnectOnChanges(senderId);
                                         }
                                     }
@@ -609,15 +1184,9 @@ export class NmosRegistryConnector {
                         sender = g.post;
                         device = this.nmosState.devices[sender.device_id];
 
-                        device.controls.forEach((c)=>{
-                            if(c.type == "urn:x-nmos:control:sr-ctrl/v1.0" ){
-                                let href = c.href;
-                                if(href[href.length-1] != "/"){
-                                    href += "/";
-                                }
-                                href += "single/senders/"+senderId+"/active/";
-                                active_href.push(href)
-                            }
+                        // IS-07 transports (websocket, mqtt) are only available in sr-ctrl v1.1
+                        this.getConnectionControlHrefs(device).forEach((c)=>{
+                            active_href.push(c.href + "single/senders/"+senderId+"/active/");
                         });
                         
                         
@@ -631,6 +1200,7 @@ export class NmosRegistryConnector {
                         try{
                             let response = await axios.get(href);
                             this.nmosState.senderActiveData[senderId] = response.data;
+                            this.capture?.record({kind:"senderActive", senderId:senderId, data:response.data});
                             return;
                         }catch(e){
                             SyncLog.log("warn", "NMOS", "Can not get active configuration of sender:",{error: e.message, href : href});
@@ -660,8 +1230,9 @@ export class NmosRegistryConnector {
             let entry:any = structuredClone(registry);
             //let entry = JSON.parse(JSON.stringify(registry));
             entry.connected = [];
+            entry.active = (this.getRegistryUrl(registry) == this.activeRegistry);
             try {
-                const url = "http://" + registry.ip + ":" + registry.port + "";
+                const url = this.getRegistryUrl(registry);
                 let endpoints = ["nodes", "devices", "sources", "senders", "receivers", "flows"];
                 endpoints.forEach((e) => {
                     Object.keys(this.connections).forEach((c)=>{
@@ -677,7 +1248,13 @@ export class NmosRegistryConnector {
             } catch (e) {}
             list.push(entry);
         });
-        this.syncConnectionState.setState({ registries: list });
+        let peerToPeer = {
+            active: this.peerToPeerActive,
+            nodes: Object.values(this.peerToPeerNodes).map((node) => {
+                return { endpoint: node.endpoint, nodeId: node.nodeId, version: node.version, reachable: node.failures < 3 };
+            }),
+        };
+        this.syncConnectionState.setState({ registries: list, activeRegistry: this.activeRegistry, peerToPeer: peerToPeer });
         setTimeout(()=>{
             this.updateSyncConnectionState();
         },2000)
@@ -688,6 +1265,18 @@ export class NmosRegistryConnector {
         CrosspointAbstraction.instance.reconnectOnChangesFromNmos(senderId);
     }
 
+    getReceiverCapsIssues(receiverId:string, senderId:string){
+        try{
+            let receiver = this.nmosState.receivers[receiverId];
+            let sender = this.nmosState.senders[senderId];
+            let flow = this.nmosState.flows[sender.flow_id];
+            let source = flow ? this.nmosState.sources[flow.source_id] : null;
+            return CheckReceiverCaps(receiver, sender, flow, source);
+        }catch(e){
+            return [];
+        }
+    }
+
     async connectionGetSenderInfo(senderId:string){
         let info:CrosspointConnectionSenderInfo = {
             senderId: senderId,
@@ -695,7 +1284,8 @@ export class NmosRegistryConnector {
             manifestFile:"",
             active:false,
             error:"",
-            transport:""
+            transport:"",
+            transportParams:[]
         }
         let deviceId
         let device 
@@ -716,6 +1306,18 @@ export class NmosRegistryConnector {
             info.error = "Sender not available in NMOS";
             return info;
         }
+        info.active = sender.subscription.active;
+
+        if(sender.transport == "urn:x-nmos:transport:websocket" || sender.transport == "urn:x-nmos:transport:mqtt"){
+            // IS-07 event senders have no SDP, the receiver gets the active transport parameters of the sender
+            info.transport = (sender.transport == "urn:x-nmos:transport:websocket") ? "websocket" : "mqtt";
+            if(!this.nmosState.senderActiveData.hasOwnProperty(senderId)){
+                info.error = "Active transport parameters of event sender not available";
+                return info;
+            }
+            info.transportParams = this.nmosState.senderActiveData[senderId].transport_params;
+            return info;
+        }
 
         // TODO: need to load manifest always
         // Now: Always load manifest
@@ -744,17 +1346,41 @@ export class NmosRegistryConnector {
         if(sender.transport == "urn:x-nmos:transport:rtp.mcast"){
             info.transport = "rtp.mcast"
         }
+        if(sender.transport == "urn:x-nmos:transport:rtp.ucast"){
+            info.transport = "rtp.ucast"
+        }
         if(sender.transport == "urn:x-nmos:transport:rtp"){
             info.transport = "rtp"
         } 
 
-        info.active = sender.subscription.active;
-
         return info
     }
 
-    async makeConnection(receiverId:string, senderInfo: CrosspointConnectionSenderInfo){
+    // Enables an inactive sender and waits until it provides a new manifest (or is reported active)
+    async enableSenderAndWait(senderId:string, previous:CrosspointConnectionSenderInfo){
+        if(!await this.enableFlow(senderId)){
+            let id = SyncLog.log("error", "nmos_connect", "Inactive sender "+senderId+" could not be enabled.");
+            throw new LoggedError("Inactive sender could not be enabled.", id);
+        }
+        let start = Date.now();
+        while(Date.now() - start < this.settings.inactiveSenders.enableTimeout){
+            await sleep(500);
+            let info = await this.connectionGetSenderInfo(senderId);
+            if(info.error == "" && (info.manifestFile != previous.manifestFile || info.active)){
+                info.active = true;
+                return info;
+            }
+        }
+        let id = SyncLog.log("error", "nmos_connect", "Sender "+senderId+" was enabled, but provided no new manifest.", {timeout:this.settings.inactiveSenders.enableTimeout});
+        throw new LoggedError("Sender was enabled, but provided no new manifest within "+this.settings.inactiveSenders.enableTimeout+" ms.", id);
+    }
+
+    private async buildConnectionPatch(receiverId:string, senderInfo: CrosspointConnectionSenderInfo, activation:CrosspointActivation){
 
+        if(!senderInfo){
+            SyncLog.log("warning", "NMOS Connect", "No valid sender Info.");
+            throw new Error("No valid sender Info.");
+        }
         if(senderInfo.error != ""){
             SyncLog.log("warning", "NMOS Connect", "No valid sender Info: " + senderInfo.error);
             throw new Error(senderInfo.error);
@@ -762,8 +1388,8 @@ export class NmosRegistryConnector {
 
         let patch: any = {
             activation: { 
-                mode: "activate_immediate",
-                requested_time: null,
+                mode: activation.mode,
+                requested_time: activation.requestedTime,
              },
             transport_params: [],
         };
@@ -804,18 +1430,54 @@ export class NmosRegistryConnector {
         
 
 
+        let eventReceiver = (receiver.transport == "urn:x-nmos:transport:websocket" || receiver.transport == "urn:x-nmos:transport:mqtt");
+
+        let rtp = (senderInfo.transport == "rtp.mcast" || senderInfo.transport == "rtp.ucast" || senderInfo.transport == "rtp");
+        let legs:{mode:"network"|"index", map:(number|null)[]} = {mode:"index", map:[]};
+        if(rtp && this.settings.legMapping.mode == "network"){
+            legs = await this.getLegMapping(receiver, device, senderInfo);
+        }
+
         let interfaceCount = Math.min(senderInfo.interfaces.length, interfaces.length);
-        let i = 0;
+        if(senderInfo.transport == "websocket" || senderInfo.transport == "mqtt"){
+            interfaceCount = Math.min(senderInfo.transportParams.length, Math.max(interfaces.length, 1));
+        }
+        if(legs.mode == "network"){
+            // legs are set below
+            interfaceCount = 0;
+            // the rewritten SDP only keeps the enabled legs, its media sections no longer match the receiver legs by position
+            let identity = legs.map.every((senderLeg, index)=>senderLeg == index);
+            legs.map.forEach((senderLeg, index)=>{
+                if(senderLeg == null){
+                    patch.transport_params.push({rtp_enabled:false});
+                }else if(identity){
+                    patch.transport_params.push({interface_ip:"auto",rtp_enabled:true});
+                }else{
+                    patch.transport_params.push({interface_ip:"auto",rtp_enabled:true, ...GetSdpLegParams(senderInfo.manifestFile, senderLeg)});
+                }
+            });
+        }
+        let i = patch.transport_params.length;
 
-        for (i = 0; i < interfaceCount; i++) {
-            if(senderInfo.transport == "rtp.mcast" || senderInfo.transport == "rtp"){
+        for (i = i; i < interfaceCount; i++) {
+            let senderParams = senderInfo.transportParams[i];
+            if(rtp){
                 patch.transport_params.push({interface_ip:"auto",rtp_enabled:true});
             }else if(senderInfo.transport == "websocket"){
-                // TODO Websocket / MQTT
-                patch.transport_params.push({});
+                patch.transport_params.push({
+                    connection_uri:senderParams.connection_uri,
+                    connection_authorization:senderParams.connection_authorization
+                });
             }else if(senderInfo.transport == "mqtt"){
-                // TODO Websocket / MQTT
-                patch.transport_params.push({});
+                // the broker is the destination of the sender and the source of the receiver
+                patch.transport_params.push({
+                    source_host:senderParams.destination_host,
+                    source_port:senderParams.destination_port,
+                    broker_protocol:senderParams.broker_protocol,
+                    broker_authorization:senderParams.broker_authorization,
+                    broker_topic:senderParams.broker_topic,
+                    connection_status_broker_topic:senderParams.connection_status_broker_topic
+                });
             }else{
                 SyncLog.log("warning", "NMOS Connect", "Sender has no transport Information.");
                 throw new Error("Transport Type missing.");
@@ -824,14 +1486,14 @@ export class NmosRegistryConnector {
 
         interfaceCount = receiver.interface_bindings.length;
         for (i = i; i < interfaceCount; i++) {
-            if(senderInfo.senderId == "disconnect"){
+            if(senderInfo.senderId == "disconnect" && !eventReceiver){
                 patch.transport_params.push({ rtp_enabled: false });
             }else{
                 patch.transport_params.push({});
             }
         }
 
-        if(senderInfo.transport == "rtp.mcast" || senderInfo.transport == "rtp"){
+        if(rtp){
             let manifest = senderInfo.manifestFile;
 
             if(this.settings.fixSdpBugs){
@@ -839,6 +1501,15 @@ export class NmosRegistryConnector {
                 manifest = manifest.replace("TCS=UNSPECIFIED;", "TCS=SDR;");
             }
 
+            if(senderInfo.senderId != "disconnect"){
+                let legMap = (legs.mode == "network") ? legs.map : patch.transport_params.map((p, index)=>(p.rtp_enabled ? index : null));
+                manifest = this.applySourceSpecificMulticast(senderInfo, manifest, legMap, patch.transport_params);
+            }
+
+            if(legs.mode == "network"){
+                manifest = RewriteSdpLegs(manifest, legs.map);
+            }
+
             patch.transport_file = {
                 type: "application/sdp",
                 data: manifest,
@@ -883,6 +1554,330 @@ export class NmosRegistryConnector {
             }
         }
 
+        if(controlHrefs.length == 0){
+            let id = SyncLog.log("error", "nmos_connect", "Receiver "+receiverId+" has no connection control.");
+            throw new LoggedError("Receiver has no connection control.", id);
+        }
+
+        await this.validatePatch("receivers", receiverId, controlHrefs[0].href, patch);
+
+        return {patch, controlHrefs};
+    }
+
+    // Sets source_ip on every receiver leg whose multicast group is in an SSM range, fixes a=source-filter in "filter" ranges.
+    // legMap has the sender leg for every receiver leg.
+    private applySourceSpecificMulticast(senderInfo:CrosspointConnectionSenderInfo, manifest:string, legMap:(number|null)[], params:any[]){
+        let active = this.nmosState.senderActiveData[senderInfo.senderId]?.transport_params || [];
+        let sdpSources = GetSdpLegSources(manifest);
+
+        legMap.forEach((senderLeg, index)=>{
+            if(senderLeg == null || !params[index]){
+                return;
+            }
+            let group = GetSdpLegParams(manifest, senderLeg).multicast_ip || active[senderLeg]?.destination_ip;
+            let mode = GetSsmMode(group, this.settings.multicastRanges);
+            if(mode == "off"){
+                return;
+            }
+
+            let source = active[senderLeg]?.source_ip;
+            if(IpToNumber(source) == null){
+                source = sdpSources[senderLeg];
+            }
+            if(IpToNumber(source) == null){
+                let id = SyncLog.log("error", "nmos_connect", "Source address of sender "+senderInfo.senderId+" leg "+(senderLeg+1)+" unknown, "+group+" requires SSM.", {group});
+                throw new LoggedError("Source address of sender unknown, multicast group "+group+" requires SSM.", id);
+            }
+
+            params[index].source_ip = source;
+            if(mode == "filter"){
+                manifest = SetSdpSourceFilter(manifest, senderLeg, group, source);
+            }
+        });
+        return manifest;
+    }
+
+    private constraintsCache:{[resource:string]:{version:string, constraints:any[]}} = {};
+
+    // IS-05 /constraints of a sender or receiver, cached until the resource version changes
+    private async getConstraints(type:"senders"|"receivers", id:string, href:string):Promise<any[]|null>{
+        let version = this.nmosState[type][id]?.version;
+        let cached = this.constraintsCache[type + "/" + id];
+        if(cached && cached.version == version){
+            return cached.constraints;
+        }
+        if(href[href.length-1] != "/"){
+            href += "/";
+        }
+        try{
+            let response = await axios.get(href + "single/" + type + "/" + id + "/constraints", {timeout:5000});
+            if(!Array.isArray(response.data)){
+                return null;
+            }
+            this.constraintsCache[type + "/" + id] = {version:version, constraints:response.data};
+            return response.data;
+        }catch(e){
+            SyncLog.log("info", "nmos_connect", "Can not read constraints of "+id+", patch is not validated.", {message:e.message});
+            return null;
+        }
+    }
+
+    // Fits the legs of the patch to the device and checks every transport parameter against its constraints
+    private async validatePatch(type:"senders"|"receivers", id:string, href:string, patch:any){
+        let constraints = await this.getConstraints(type, id, href);
+        if(!constraints){
+            return;
+        }
+        patch.transport_params = FitTransportParams(patch.transport_params, constraints.length);
+        let issue = ValidateTransportParams(patch.transport_params, constraints);
+        if(issue){
+            let logId = SyncLog.log("error", "nmos_connect", "Patch for "+id+" not sent: "+issue.message, {patch, constraints, issue});
+            throw new TransportParamsError(issue, logId);
+        }
+    }
+
+    // Matches the legs of a receiver to the sender legs on the same network (configured networks or subnet)
+    private async getLegMapping(receiver:any, device:any, senderInfo:CrosspointConnectionSenderInfo){
+        let receiverIps:(string|null)[] = [];
+        let senderIps:(string|null)[] = GetSdpLegSources(senderInfo.manifestFile);
+
+        try{
+            let href = this.getConnectionControlHrefs(device)[0].href + "single/receivers/" + receiver.id + "/active";
+            let response = await axios.get(href, {timeout:5000});
+            receiverIps = response.data.transport_params.map((p:any)=>p.interface_ip);
+        }catch(e){
+            SyncLog.log("info", "nmos_connect", "Can not read interfaces of receiver "+receiver.id+", legs are mapped by index.", {message:e.message});
+            receiverIps = receiver.interface_bindings.map(()=>null);
+        }
+
+        try{
+            let active = this.nmosState.senderActiveData[senderInfo.senderId];
+            senderIps = senderIps.map((ip, index)=>{
+                let source = active.transport_params[index]?.source_ip;
+                return (source && source != "auto") ? source : ip;
+            });
+        }catch(e){}
+
+        let senderNetworks = senderIps.map((ip)=>GetLegNetwork(ip, this.settings.legMapping));
+        let receiverNetworks = receiverIps.map((ip)=>GetLegNetwork(ip, this.settings.legMapping));
+        let legs = MapLegs(senderNetworks, receiverNetworks);
+
+        if(legs.mode == "network" && !legs.map.every((senderLeg, index)=>senderLeg == index)){
+            SyncLog.log("info", "nmos_connect", "Receiver "+receiver.id+" legs mapped by network.", {senderNetworks, receiverNetworks, map:legs.map});
+        }
+        return legs;
+    }
+
+    async makeConnection(receiverId:string, senderInfo: CrosspointConnectionSenderInfo, activation:CrosspointActivation = {mode:"activate_immediate", requestedTime:null}){
+        let previousSenderId = this.getReceiverSenderId(receiverId);
+        let unicast = await this.prepareUnicastSender(receiverId, senderInfo, activation);
+        let result:any;
+        try{
+            result = await this.patchReceiver(receiverId, unicast.senderInfo, activation);
+        }catch(e){
+            await this.rollbackUnicastSender(unicast);
+            throw e;
+        }
+        await this.releaseUnicastSender(previousSenderId, receiverId, senderInfo.senderId, activation);
+        return result;
+    }
+
+    private getReceiverSenderId(receiverId:string):string|null{
+        try{
+            return this.nmosState.receivers[receiverId].subscription.sender_id || null;
+        }catch(e){
+            return null;
+        }
+    }
+
+    // Unicast RTP: rtp.ucast or, for the generic rtp transport, a destination that is not a multicast group
+    // (active parameters, SDP or the destination_ip constraint of the sender)
+    private async isUnicastSender(sender:any, manifest:string|null, href:string|null){
+        if(sender.transport == "urn:x-nmos:transport:rtp.ucast"){
+            return true;
+        }
+        if(sender.transport != "urn:x-nmos:transport:rtp"){
+            return false;
+        }
+        let destination = this.nmosState.senderActiveData[sender.id]?.transport_params?.[0]?.destination_ip;
+        if(IpToNumber(destination) == null && manifest){
+            destination = GetSdpLegDestination(manifest, 0);
+        }
+        if(IpToNumber(destination) != null){
+            return !IpInSubnet(destination, "224.0.0.0/4");
+        }
+        if(href){
+            let enumList:any[] = (await this.getConstraints("senders", sender.id, href))?.[0]?.destination_ip?.enum || [];
+            let addresses = enumList.filter((e)=>IpToNumber(e) != null);
+            return addresses.length > 0 && !addresses.some((e)=>IpInSubnet(e, "224.0.0.0/4"));
+        }
+        return false;
+    }
+
+    // Unicast RTP: the sender is staged towards the interfaces of the receiver with the activation of the receiver,
+    // the receiver then gets the SDP of the sender. rollback restores the sender if the receiver patch fails.
+    private async prepareUnicastSender(receiverId:string, senderInfo:CrosspointConnectionSenderInfo, activation:CrosspointActivation):Promise<UnicastPreparation>{
+        let prepared:UnicastPreparation = {senderInfo:senderInfo, rollback:null};
+        let receiver = this.nmosState.receivers[receiverId];
+        let sender = this.nmosState.senders[senderInfo?.senderId];
+        if(!receiver || !sender || !senderInfo.transport.startsWith("rtp")){
+            return prepared;
+        }
+
+        let senderHref = this.getConnectionControlHrefs(this.nmosState.devices[sender.device_id] || {controls:[]})[0]?.href;
+        if(receiver.transport != "urn:x-nmos:transport:rtp.ucast" && !await this.isUnicastSender(sender, senderInfo.manifestFile, senderHref)){
+            return prepared;
+        }
+
+        let receiverHref = this.getConnectionControlHrefs(this.nmosState.devices[receiver.device_id])[0]?.href;
+        if(!receiverHref || !senderHref){
+            let id = SyncLog.log("error", "nmos_connect", "Unicast connection needs connection control on sender and receiver.", {receiverId, senderId:sender.id});
+            throw new LoggedError("Unicast connection needs connection control on sender and receiver.", id);
+        }
+
+        let legs = await this.getReceiverUnicastLegs(receiverId, receiverHref);
+        let constraints = await this.getConstraints("senders", sender.id, senderHref);
+        if(constraints){
+            legs = legs.slice(0, constraints.length);
+        }
+
+        let previous:any = null;
+        try{
+            previous = (await axios.get(senderHref + "single/senders/" + sender.id + "/active", {timeout:5000})).data;
+        }catch(e){
+            SyncLog.log("warning", "nmos_connect", "Can not read active parameters of unicast sender "+sender.id+", it can not be restored on errors.", {message:e.message});
+        }
+
+        let patch:any = {
+            receiver_id: receiverId,
+            master_enable: true,
+            activation: { mode: activation.mode, requested_time: activation.requestedTime },
+            transport_params: legs.map((l)=>{
+                return {destination_ip:l.ip, destination_port:l.port, rtp_enabled:true};
+            })
+        };
+        await this.validatePatch("senders", sender.id, senderHref, patch);
+
+        let patchHref = senderHref + "single/senders/" + sender.id + "/staged";
+        try{
+            await axios.patch(patchHref, patch, {timeout:30000});
+            SyncLog.log("success", "nmos_connect", "Unicast sender "+sender.id+(activation.mode == "activate_immediate" ? " activated" : " scheduled")+" towards receiver "+receiverId, {href:patchHref, data:patch});
+        }catch(e){
+            let id = SyncLog.log("error", "nmos_connect", "Unicast sender "+sender.id+" returned Error: "+e.code, {href:patchHref, patch, error:e.response?.data, message:e.message});
+            throw new LoggedError("Unicast sender patch failed: "+(e.response?.data?.error || e.message), id);
+        }
+
+        prepared.rollback = async ()=>{
+            let restore:any = {activation:{mode:null}};
+            if(activation.mode == "activate_immediate"){
+                if(!previous){
+                    return;
+                }
+                restore = {
+                    receiver_id: previous.receiver_id,
+                    master_enable: previous.master_enable,
+                    activation: { mode: "activate_immediate", requested_time: null },
+                    transport_params: previous.transport_params
+                };
+            }
+            await axios.patch(patchHref, restore, {timeout:30000});
+            SyncLog.log("info", "nmos_connect", "Unicast sender "+sender.id+" restored, receiver "+receiverId+" was not patched.", {href:patchHref, data:restore});
+        };
+
+        try{
+            // the transport file shows the active parameters, a scheduled sender is described by its current SDP with the new destinations
+            let transportFile = (await axios.get(senderHref + "single/senders/" + sender.id + "/transportfile", {timeout:5000})).data;
+            if(activation.mode != "activate_immediate"){
+                transportFile = SetSdpLegDestinations(transportFile, legs);
+            }
+            prepared.senderInfo = {...senderInfo, manifestFile:transportFile, active:true};
+            return prepared;
+        }catch(e){
+            let id = SyncLog.log("error", "nmos_connect", "Can not load SDP of unicast sender "+sender.id, {message:e.message});
+            await this.rollbackUnicastSender(prepared);
+            throw new LoggedError("Can not load SDP of unicast sender.", id);
+        }
+    }
+
+    private async rollbackUnicastSender(prepared:UnicastPreparation|null){
+        if(!prepared?.rollback){
+            return;
+        }
+        try{
+            await prepared.rollback();
+        }catch(e){
+            SyncLog.log("error", "nmos_connect", "Can not restore unicast sender "+prepared.senderInfo.senderId, {message:e.message, error:e.response?.data});
+        }
+    }
+
+    // Interface address and port of every receiver leg from /active, /constraints if the active address is "auto"
+    private async getReceiverUnicastLegs(receiverId:string, href:string){
+        let active:any[] = [];
+        try{
+            active = (await axios.get(href + "single/receivers/" + receiverId + "/active", {timeout:5000})).data.transport_params;
+        }catch(e){}
+        let constraints = await this.getConstraints("receivers", receiverId, href) || [];
+
+        let legs = [];
+        let count = Math.max(active.length, constraints.length);
+        for(let i = 0; i < count; i++){
+            let ip = active[i]?.interface_ip;
+            if(IpToNumber(ip) == null){
+                ip = (constraints[i]?.interface_ip?.enum || []).find((e)=>IpToNumber(e) != null);
+            }
+            if(!ip){
+                break;
+            }
+            let port = active[i]?.destination_port;
+            legs.push({ip:ip, port:(typeof port == "number" ? port : "auto")});
+        }
+
+        if(legs.length == 0){
+            let id = SyncLog.log("error", "nmos_connect", "Can not determine the interface address of receiver "+receiverId);
+            throw new LoggedError("Can not determine the interface address of the unicast receiver.", id);
+        }
+        return legs;
+    }
+
+    // Stops a unicast sender that was sending to the receiver, if the receiver got another sender or was disconnected.
+    // Uses the activation of the receiver, so a scheduled switch keeps the previous sender running until then.
+    private async releaseUnicastSender(senderId:string|null, receiverId:string, newSenderId:string, activation:CrosspointActivation){
+        if(!senderId || senderId == newSenderId || !this.nmosState.senders[senderId]){
+            return;
+        }
+        let sender = this.nmosState.senders[senderId];
+        // the receiver is looked up on the sender for unicast senders only
+        if(!await this.isUnicastSender(sender, null, null)){
+            return;
+        }
+        let href = this.getConnectionControlHrefs(this.nmosState.devices[sender.device_id] || {controls:[]})[0]?.href;
+        if(!href){
+            return;
+        }
+        try{
+            let active = (await axios.get(href + "single/senders/" + senderId + "/active", {timeout:5000})).data;
+            if(active.receiver_id != receiverId){
+                return;
+            }
+            let patch = {
+                receiver_id: null,
+                master_enable: false,
+                activation: { mode: activation.mode, requested_time: activation.requestedTime },
+                transport_params: active.transport_params.map(()=>{
+                    return {rtp_enabled:false};
+                })
+            };
+            await axios.patch(href + "single/senders/" + senderId + "/staged", patch, {timeout:30000});
+            SyncLog.log("success", "nmos_connect", "Unicast sender "+senderId+" stopped, receiver "+receiverId+" was changed.", {data:patch});
+        }catch(e){
+            SyncLog.log("warning", "nmos_connect", "Can not stop unicast sender "+senderId, {message:e.message});
+        }
+    }
+
+    private async patchReceiver(receiverId:string, senderInfo: CrosspointConnectionSenderInfo, activation:CrosspointActivation){
+
+        let {patch, controlHrefs} = await this.buildConnectionPatch(receiverId, senderInfo, activation);
+
         let done = false;
 
         // TODO Check control hrefs for first response....
@@ -898,7 +1893,13 @@ export class NmosRegistryConnector {
             let patchHref = href.href + fixSlash + "single/receivers/" + receiverId + "/staged"
             try{
                 let result = await axios.patch(patchHref, patch, {timeout:30000});
-                return SyncLog.log("success", "nmos_connect", "Successfully patched: "+receiverId, {href:patchHref, data:patch})
+                if(activation.mode != "activate_immediate"){
+                    this.addScheduledActivation(receiverId, senderInfo.senderId, activation, result.data);
+                    return {log:SyncLog.log("success", "nmos_connect", "Successfully scheduled: "+receiverId, {href:patchHref, data:patch})};
+                }
+                this.removeScheduledActivation(receiverId);
+                let log = SyncLog.log("success", "nmos_connect", "Successfully patched: "+receiverId, {href:patchHref, data:patch});
+                return {log:log, verification:await this.verifyConnection(receiverId, href.href + fixSlash, patch)};
             }catch(e){
                 if (axios.isAxiosError(e)) {
                     if(e.code == "ETIMEDOUT"){
@@ -924,6 +1925,323 @@ export class NmosRegistryConnector {
     }
 
 
+    // Reads the receiver /active endpoint after an immediate activation and compares it with the patch,
+    // some receivers accept the patch and ignore the staged parameters.
+    private async verifyConnection(receiverId:string, href:string, patch:any):Promise<ConnectionVerification>{
+        let activeHref = href + "single/receivers/" + receiverId + "/active";
+        let active:any = null;
+        try{
+            await sleep(200);
+            active = (await axios.get(activeHref, {timeout:5000})).data;
+        }catch(e){
+            SyncLog.log("info", "nmos_connect", "Can not verify connection of receiver "+receiverId, {href:activeHref, message:e.message});
+            return {status:"unverifiable", issues:[]};
+        }
+        if(!active || !Array.isArray(active.transport_params)){
+            return {status:"unverifiable", issues:[]};
+        }
+
+        let issues:string[] = [];
+        let expectedSender = (patch.hasOwnProperty("sender_id") ? patch.sender_id : null);
+        if(patch.master_enable && active.sender_id != expectedSender){
+            issues.push("sender_id is " + active.sender_id + " instead of " + expectedSender);
+        }
+        if(active.master_enable != patch.master_enable){
+            issues.push("master_enable is " + active.master_enable + " instead of " + patch.master_enable);
+        }
+
+        // legs with SDP media sections, in the order of the enabled legs
+        let mediaIndex = 0;
+        patch.transport_params.forEach((requested:any, leg:number)=>{
+            let expected = {...requested};
+            if(patch.transport_file && requested.rtp_enabled !== false && patch.master_enable){
+                expected = {...GetSdpLegParams(patch.transport_file.data, mediaIndex), ...requested};
+                mediaIndex++;
+            }
+            let current = active.transport_params[leg];
+            if(!current){
+                issues.push("leg " + (leg+1) + " missing");
+                return;
+            }
+            for(let key of Object.keys(expected)){
+                if(expected[key] === "auto" || expected[key] === undefined || !current.hasOwnProperty(key)){
+                    continue;
+                }
+                if(current[key] != expected[key]){
+                    issues.push("leg " + (leg+1) + " " + key + " is " + current[key] + " instead of " + expected[key]);
+                }
+            }
+        });
+
+        if(issues.length > 0){
+            SyncLog.log("warning", "nmos_connect", "Receiver "+receiverId+" does not match the requested connection.", {href:activeHref, issues:issues, patch:patch, active:active});
+            return {status:"mismatch", issues:issues};
+        }
+        return {status:"verified", issues:[]};
+    }
+
+    // Patches a list of receivers, receivers sharing a connection API are grouped into one IS-05 bulk request when supported
+    async makeConnections(list:{receiverId:string, senderInfo:CrosspointConnectionSenderInfo}[], activation:CrosspointActivation = {mode:"activate_immediate", requestedTime:null}){
+        let results:{receiverId:string, log?:any, verification?:ConnectionVerification, error?:any}[] = [];
+        let groups:{[href:string]:{index:number, patch:any}[]} = {};
+        let previousSenderIds = list.map((c)=>this.getReceiverSenderId(c.receiverId));
+        let unicast:(UnicastPreparation|null)[] = list.map(()=>null);
+
+        await Promise.all(list.map(async (c, index)=>{
+            try{
+                unicast[index] = await this.prepareUnicastSender(c.receiverId, c.senderInfo, activation);
+                c.senderInfo = unicast[index].senderInfo;
+                let {patch, controlHrefs} = await this.buildConnectionPatch(c.receiverId, c.senderInfo, activation);
+                let href = controlHrefs[0].href;
+                if(href[href.length-1] != "/"){
+                    href += "/";
+                }
+                if(!groups.hasOwnProperty(href)){
+                    groups[href] = [];
+                }
+                groups[href].push({index, patch});
+            }catch(e){
+                results[index] = {receiverId:c.receiverId, error:e};
+            }
+        }));
+
+        await Promise.all(Object.keys(groups).map(async (href)=>{
+            let group = groups[href];
+            if(group.length > 1 && await this.supportsBulk(href)){
+                let bulkHref = href + "bulk/receivers";
+                let bulkPatch = group.map((g)=>{
+                    return {id:list[g.index].receiverId, params:g.patch};
+                });
+                try{
+                    let response = await axios.post(bulkHref, bulkPatch, {timeout:30000});
+                    let logId = SyncLog.log("success", "nmos_connect", "Bulk patched "+group.length+" receivers.", {href:bulkHref, data:bulkPatch, response:response.data});
+                    await Promise.all(group.map(async (g)=>{
+                        let receiverId = list[g.index].receiverId;
+                        let item = (Array.isArray(response.data) ? response.data.find((r)=>r.id == receiverId) : null);
+                        if(item && item.code >= 200 && item.code < 300){
+                            if(activation.mode != "activate_immediate"){
+                                this.addScheduledActivation(receiverId, list[g.index].senderInfo.senderId, activation, null);
+                                results[g.index] = {receiverId, log:logId};
+                            }else{
+                                this.removeScheduledActivation(receiverId);
+                                results[g.index] = {receiverId, log:logId, verification:await this.verifyConnection(receiverId, href, g.patch)};
+                            }
+                        }else{
+                            let message = (item ? "Patch failed: " + item.error + " / " + item.debug : "Missing bulk response for receiver.");
+                            let id = SyncLog.log("error", "nmos_connect", "Receiver "+receiverId+" returned Error in bulk patch.", {failedControl:bulkHref, patch:g.patch, response:item});
+                            results[g.index] = {receiverId, error:new LoggedError(message, id)};
+                        }
+                    }));
+                    return;
+                }catch(e){
+                    // only a rejected bulk endpoint is retried one by one, after a timeout or server error the receivers may already be patched
+                    if(![404, 405, 501].includes(e.response?.status)){
+                        let id = SyncLog.log("error", "nmos_connect", "Bulk patch on "+bulkHref+" failed, receivers are in an unknown state.", {data:bulkPatch, error:e.response?.data, message:e.message});
+                        group.forEach((g)=>{
+                            results[g.index] = {receiverId:list[g.index].receiverId, error:new LoggedError("Bulk patch failed: "+(e.response?.data?.error || e.message), id)};
+                        });
+                        return;
+                    }
+                    this.bulkSupport[href] = false;
+                    SyncLog.log("info", "nmos_connect", "Bulk patch on "+bulkHref+" rejected, patching receivers one by one.", {status:e.response.status});
+                }
+            }
+
+            await Promise.all(group.map(async (g)=>{
+                let c = list[g.index];
+                try{
+                    results[g.index] = {receiverId:c.receiverId, ...await this.patchReceiver(c.receiverId, c.senderInfo, activation)};
+                }catch(e){
+                    results[g.index] = {receiverId:c.receiverId, error:e};
+                }
+            }));
+        }));
+
+        await Promise.all(list.map(async (c, index)=>{
+            if(results[index] && !results[index].error){
+                await this.releaseUnicastSender(previousSenderIds[index], c.receiverId, c.senderInfo.senderId, activation);
+            }else{
+                await this.rollbackUnicastSender(unicast[index]);
+            }
+        }));
+
+        return results;
+    }
+
+    private bulkSupport:{[href:string]:boolean} = {};
+    private async supportsBulk(href:string){
+        if(this.bulkSupport.hasOwnProperty(href)){
+            return this.bulkSupport[href];
+        }
+        try{
+            let response = await axios.get(href, {timeout:5000});
+            this.bulkSupport[href] = Array.isArray(response.data) && response.data.includes("bulk/");
+            return this.bulkSupport[href];
+        }catch(e){
+            return false;
+        }
+    }
+
+    private addScheduledActivation(receiverId:string, senderId:string, activation:CrosspointActivation, staged:any){
+        let time = 0;
+        let activationTime:string|null = null;
+        try{
+            activationTime = staged.activation.activation_time;
+        }catch(e){}
+
+        if(activationTime){
+            time = TaiToUtc(activationTime);
+        }else if(activation.mode == "activate_scheduled_absolute"){
+            time = TaiToUtc(activation.requestedTime);
+        }else{
+            let parts = activation.requestedTime.split(":");
+            time = Date.now() + Number.parseInt(parts[0]) * 1000 + Math.floor(Number.parseInt(parts[1] || "0") / 1000000);
+        }
+
+        let label = "";
+        try{
+            label = this.nmosState.receivers[receiverId].label;
+        }catch(e){}
+
+        this.clearScheduledActivationTimer(receiverId);
+        this.scheduledActivations.activations[receiverId] = {
+            receiverId: receiverId,
+            senderId: (senderId == "disconnect" ? null : senderId),
+            label: label,
+            mode: activation.mode,
+            requestedTime: activation.requestedTime,
+            activationTime: activationTime,
+            time: time,
+            status: "pending",
+            detail: ""
+        };
+        this.scheduledActivationTimers[receiverId] = setTimeout(()=>{
+            this.scheduledActivationTimers[receiverId] = null;
+            this.checkScheduledActivation(receiverId);
+        }, Math.max(0, time - Date.now()) + 1000);
+        this.syncScheduledActivations.setState(this.scheduledActivations);
+    }
+
+    private clearScheduledActivationTimer(receiverId:string){
+        if(this.scheduledActivationTimers[receiverId]){
+            clearTimeout(this.scheduledActivationTimers[receiverId]);
+            this.scheduledActivationTimers[receiverId] = null;
+        }
+    }
+
+    private removeScheduledActivation(receiverId:string){
+        this.clearScheduledActivationTimer(receiverId);
+        if(this.scheduledActivations.activations.hasOwnProperty(receiverId)){
+            delete this.scheduledActivations.activations[receiverId];
+            this.syncScheduledActivations.setState(this.scheduledActivations);
+        }
+    }
+
+    private finishScheduledActivation(receiverId:string, status:ScheduledActivation["status"], detail:string){
+        let entry = this.scheduledActivations.activations[receiverId];
+        entry.status = status;
+        entry.detail = detail;
+        this.syncScheduledActivations.setState(this.scheduledActivations);
+
+        // Keep finished activations visible for a while
+        this.scheduledActivationTimers[receiverId] = setTimeout(()=>{
+            this.scheduledActivationTimers[receiverId] = null;
+            if(this.scheduledActivations.activations[receiverId] === entry){
+                this.removeScheduledActivation(receiverId);
+            }
+        }, 60000);
+    }
+
+    private async checkScheduledActivation(receiverId:string){
+        let entry = this.scheduledActivations.activations[receiverId];
+        if(!entry || entry.status != "pending"){
+            return;
+        }
+
+        let controlHrefs = [];
+        try{
+            let receiver = this.nmosState.receivers[receiverId];
+            controlHrefs = this.getConnectionControlHrefs(this.nmosState.devices[receiver.device_id]);
+        }catch(e){}
+
+        for(let href of controlHrefs){
+            let activeHref = href.href + "single/receivers/" + receiverId + "/active";
+            try{
+                let response = await axios.get(activeHref, {timeout:10000});
+                let active = response.data;
+                if(active.sender_id == entry.senderId && active.master_enable == (entry.senderId != null)){
+                    SyncLog.log("success", "nmos_connect", "Scheduled activation done: "+receiverId, {href:activeHref, active:active});
+                    this.finishScheduledActivation(receiverId, "activated", "");
+                }else{
+                    let detail = "Receiver active sender is "+active.sender_id+", expected "+entry.senderId;
+                    SyncLog.log("error", "nmos_connect", "Scheduled activation not applied: "+receiverId, {href:activeHref, active:active, expected:entry});
+                    this.finishScheduledActivation(receiverId, "failed", detail);
+                }
+                return;
+            }catch(e){
+                SyncLog.log("info", "nmos_connect", "Can not read active state from "+activeHref+", trying next.", {message:e.message});
+            }
+        }
+        let id = SyncLog.log("error", "nmos_connect", "Can not verify scheduled activation, receiver control unreachable: "+receiverId, {controlHrefs});
+        this.finishScheduledActivation(receiverId, "failed", "Receiver control unreachable (log "+id+")");
+    }
+
+    async cancelScheduledActivation(receiverId:string){
+        let entry = this.scheduledActivations.activations[receiverId];
+        if(!entry || entry.status != "pending"){
+            throw new Error("No pending activation for receiver: "+receiverId);
+        }
+
+        let controlHrefs = [];
+        try{
+            let receiver = this.nmosState.receivers[receiverId];
+            controlHrefs = this.getConnectionControlHrefs(this.nmosState.devices[receiver.device_id]);
+        }catch(e){}
+
+        // IS-05: a null activation mode cancels a pending scheduled activation
+        let patch = {activation:{mode:null}};
+        for(let href of controlHrefs){
+            let patchHref = href.href + "single/receivers/" + receiverId + "/staged";
+            try{
+                await axios.patch(patchHref, patch, {timeout:30000});
+                this.clearScheduledActivationTimer(receiverId);
+                SyncLog.log("success", "nmos_connect", "Cancelled scheduled activation: "+receiverId, {href:patchHref, data:patch});
+                this.finishScheduledActivation(receiverId, "cancelled", "");
+                return;
+            }catch(e){
+                if (axios.isAxiosError(e) && e.code != "ETIMEDOUT") {
+                    let id = SyncLog.log("error", "nmos_connect", "Receiver "+receiverId+" refused cancel: "+e.code,{failedControl:patchHref, patch, message:e.message});
+                    throw new LoggedError("Cancel failed: "+e.message, id);
+                }
+                SyncLog.log("info", "nmos_connect", "Cancel on "+patchHref+" timed out, trying next.");
+            }
+        }
+        let id = SyncLog.log("error", "nmos_connect", "Receiver Control unreachable.",{controlHrefs,patch});
+        throw new LoggedError("Receiver Control unreachable.", id);
+    }
+
+    private getConnectionControlHrefs(device:any){
+        let controlHrefs = [];
+        let controlTypes = [{type:"urn:x-nmos:control:sr-ctrl/v1.1",version:"v1.1"}, {type:"urn:x-nmos:control:sr-ctrl/v1.0",version:"v1.0"}]
+
+        for(let type of controlTypes){
+            device.controls.forEach((control)=>{
+                if(control.type == type.type){
+                    let href = control.href;
+                    if(href[href.length-1] != "/"){
+                        href += "/";
+                    }
+                    controlHrefs.push({href:href, version:type.version});
+                }
+            })
+            if(controlHrefs.length > 0){
+                break;
+            }
+        }
+        return controlHrefs;
+    }
+
+
 
     async enableFlow(senderId:string, disable=false){
 
@@ -984,6 +2302,10 @@ export class NmosRegistryConnector {
                 };
             }
 
+            let constraints = await this.getConstraints("senders", senderId, controlHrefs[0].href);
+            if(constraints){
+                patch.transport_params = patch.transport_params.slice(0, constraints.length);
+            }
 
             for(let href of controlHrefs){
                 // TODO, version specific things
@@ -997,7 +2319,7 @@ export class NmosRegistryConnector {
                 try{
                     await axios.patch(patchHref, patch, {timeout:30000});
                     SyncLog.log("success", "nmos", "Successfully enabled: "+senderId, {href:patchHref, data:patch})
-                    return;
+                    return true;
                 }catch(e){
                     if (axios.isAxiosError(e)) {
                         if(e.code == "ETIMEDOUT"){
@@ -1010,17 +2332,17 @@ export class NmosRegistryConnector {
                             }else{
                                 SyncLog.log("error", "nmos", "Sender "+senderId+" returned Error: "+e.code,{controlHrefs,failedControl:patchHref,patch, message:e.message});
                             }
-                            return;
+                            return false;
                         }
                     }else{
-                        return;
+                        return false;
                     }
                 }
             }
         }catch(e){
 
         }
-
+        return false;
     }
 
 
@@ -1067,6 +2389,8 @@ export class NmosRegistryConnector {
                 patch.transport_params[l.index] = {destination_ip:l.multicast, source_ip:"auto"}
             });
 
+            await this.validatePatch("senders", senderId, controlHrefs[0].href, patch);
+
             
 
             for(let href of controlHrefs){
@@ -1110,7 +2434,9 @@ export class NmosRegistryConnector {
                 }
             }
         }catch(e){
-
+            if(e instanceof TransportParamsError){
+                throw e;
+            }
         }
 
     }
@@ -1142,9 +2468,34 @@ export class NmosRegistryConnector {
     }
 }
 
+const PEER_TO_PEER_SOURCE = "peer-to-peer";
+
+interface PeerToPeerNode {
+    endpoint: string;
+    url: string;
+    version: string;
+    nodeId: string;
+    failures: number;
+    polling: boolean;
+    resources: { [type: string]: { [id: string]: string } };
+}
+
 interface Connection {
     subscription: any;
     ws: WebSocket;
+    synced: boolean;
+}
+
+interface ScheduledActivation {
+    receiverId: string;
+    senderId: string | null;
+    label: string;
+    mode: CrosspointActivation["mode"];
+    requestedTime: string;
+    activationTime: string | null;
+    time: number;
+    status: "pending" | "activated" | "failed" | "cancelled";
+    detail: string;
 }
 
 interface NmosRegistry {
@@ -1153,6 +2504,7 @@ interface NmosRegistry {
     domain: string;
     priority: number;
     source: "mdns" | "static" | "manual";
+    protocol: "http" | "https";
 }
 
 interface ConnectionList {
@@ -1174,5 +2526,12 @@ interface CrosspointSender {
     resolution:string;
 }
 
+interface UnicastPreparation {
+    senderInfo:CrosspointConnectionSenderInfo,
+    rollback:(()=>Promise<void>)|null
+}
 
-
+export interface ConnectionVerification {
+    status:"verified"|"mismatch"|"unverifiable",
+    issues:string[]
+}
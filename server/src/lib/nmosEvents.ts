@@ -0,0 +1,266 @@
+/*
+    NMOS Crosspoint
+    Copyright (C) 2021 Johannes Grieb
+*/
+
+import * as WebSocket from "ws";
+import { SyncObject } from "./SyncServer/syncObject";
+import { WebsocketSyncServer } from "./SyncServer/websocketSyncServer";
+import { SyncLog } from "./syncLog";
+import { UtcToTai } from "./functions";
+import { NmosAuthorization } from "./nmosAuth";
+import { NmosTls } from "./nmosTls";
+
+
+// IS-07 Event & Tally, subscribes to the WebSocket event streams of all event senders
+export class NmosEvents {
+    public static instance: NmosEvents | null;
+
+    public syncEvents: SyncObject;
+    eventsState: EventsState = {sources:{}};
+
+    nmosState:any = null;
+    private connections: {[connectionUri:string]:EventConnection} = {};
+
+    constructor(){
+        if(NmosEvents.instance == null){
+            NmosEvents.instance = this;
+        }
+        this.syncEvents = new SyncObject("events", this.eventsState);
+        WebsocketSyncServer.getInstance().addSyncObject("events","global",this.syncEvents);
+
+        // active transport parameters of senders are loaded after the registry update
+        setInterval(()=>{
+            this.updateConnections();
+        },5000);
+    }
+
+    updateFromNmos(state:any){
+        this.nmosState = state;
+        this.updateConnections();
+    }
+
+    updateConnections(){
+        if(!this.nmosState){
+            return;
+        }
+        let changed = false;
+        let wanted: {[connectionUri:string]:string[]} = {};
+        let sourceIds = [];
+
+        for(let senderId in this.nmosState.senders){
+            let sender = this.nmosState.senders[senderId];
+            let transport = this.getTransport(sender.transport);
+            if(!transport){
+                continue;
+            }
+            let flow = this.nmosState.flows[sender.flow_id];
+            if(!flow){
+                continue;
+            }
+            let source = this.nmosState.sources[flow.source_id];
+            if(!source){
+                continue;
+            }
+
+            let connectionUri = null;
+            try{
+                connectionUri = this.nmosState.senderActiveData[senderId].transport_params[0].connection_uri || null;
+            }catch(e){}
+
+            sourceIds.push(source.id);
+            if(!this.eventsState.sources.hasOwnProperty(source.id)){
+                this.eventsState.sources[source.id] = {
+                    id:source.id,
+                    label:source.label,
+                    deviceId:source.device_id,
+                    senderId:senderId,
+                    eventType:source.event_type || flow.event_type || "",
+                    transport:transport,
+                    connected:false,
+                    value:null,
+                    unit:null,
+                    timestamp:null
+                };
+                changed = true;
+            }
+            let entry = this.eventsState.sources[source.id];
+            if(entry.label != source.label || entry.senderId != senderId){
+                entry.label = source.label;
+                entry.senderId = senderId;
+                changed = true;
+            }
+
+            if(transport == "websocket" && connectionUri){
+                if(!wanted[connectionUri]){
+                    wanted[connectionUri] = [];
+                }
+                wanted[connectionUri].push(source.id);
+            }
+        }
+
+        for(let id of Object.keys(this.eventsState.sources)){
+            if(!sourceIds.includes(id)){
+                delete this.eventsState.sources[id];
+                changed = true;
+            }
+        }
+
+        for(let uri of Object.keys(this.connections)){
+            if(!wanted[uri]){
+                this.closeConnection(uri);
+            }
+        }
+
+        for(let uri in wanted){
+            let connection = this.connections[uri];
+            if(!connection){
+                this.openConnection(uri, wanted[uri]);
+            }else if(wanted[uri].sort().join() != connection.sources.sort().join()){
+                connection.sources = wanted[uri];
+                this.sendSubscription(connection);
+            }
+        }
+
+        if(changed){
+            this.syncEvents.setState(this.eventsState);
+        }
+    }
+
+    private getTransport(transport:string):"websocket"|"mqtt"|null{
+        if(transport == "urn:x-nmos:transport:websocket"){
+            return "websocket";
+        }
+        if(transport == "urn:x-nmos:transport:mqtt"){
+            return "mqtt";
+        }
+        return null;
+    }
+
+    private openConnection(uri:string, sources:string[]){
+        let connection:EventConnection = {
+            uri:uri,
+            ws:new WebSocket(NmosAuthorization.instance ? NmosAuthorization.instance.addTokenToUrl(uri) : uri, NmosTls.instance?.getWebSocketOptions(uri)),
+            sources:sources,
+            healthTimer:null
+        };
+        this.connections[uri] = connection;
+
+        connection.ws.on("open", ()=>{
+            SyncLog.log("info", "events", "Connected to event stream: "+uri);
+            this.sendSubscription(connection);
+            // clients have to send a health command at least every 12 seconds
+            connection.healthTimer = setInterval(()=>{
+                this.send(connection, {command:"health", timestamp:UtcToTai(Date.now())});
+            },5000);
+        });
+
+        connection.ws.on("message", (raw:any)=>{
+            try{
+                this.handleMessage(connection, JSON.parse(raw.toString()));
+            }catch(e){
+                SyncLog.log("warning", "events", "Invalid message on event stream: "+uri, {message:e.message});
+            }
+        });
+
+        connection.ws.on("error", (e:any)=>{
+            SyncLog.log("warning", "events", "Event stream error: "+uri, {message:e.message});
+        });
+
+        connection.ws.on("close", ()=>{
+            if(this.connections[uri] == connection){
+                this.closeConnection(uri);
+            }
+        });
+    }
+
+    private closeConnection(uri:string){
+        let connection = this.connections[uri];
+        if(!connection){
+            return;
+        }
+        delete this.connections[uri];
+        if(connection.healthTimer){
+            clearInterval(connection.healthTimer);
+        }
+        try{
+            connection.ws.close();
+        }catch(e){}
+
+        let changed = false;
+        connection.sources.forEach((id)=>{
+            if(this.eventsState.sources[id]){
+                this.eventsState.sources[id].connected = false;
+                changed = true;
+            }
+        });
+        if(changed){
+            this.syncEvents.setState(this.eventsState);
+        }
+    }
+
+    private sendSubscription(connection:EventConnection){
+        // the device answers with the current state of all subscribed sources
+        this.send(connection, {command:"subscription", sources:connection.sources});
+    }
+
+    private send(connection:EventConnection, data:any){
+        if(connection.ws.readyState == WebSocket.OPEN){
+            connection.ws.send(JSON.stringify(data));
+        }
+    }
+
+    private handleMessage(connection:EventConnection, message:any){
+        if(message.message_type == "reboot" || message.message_type == "shutdown"){
+            SyncLog.log("info", "events", "Event stream closed by device ("+message.message_type+"): "+connection.uri);
+            this.closeConnection(connection.uri);
+            return;
+        }
+        if(message.message_type != "state"){
+            return;
+        }
+
+        let sourceId = message.identity?.source_id;
+        let entry = this.eventsState.sources[sourceId];
+        if(!entry){
+            return;
+        }
+
+        let payload = message.payload || {};
+        let value = payload.value;
+        if(typeof value == "number" && payload.scale){
+            value = value / payload.scale;
+        }
+        entry.value = (value === undefined ? null : value);
+        entry.unit = payload.unit || null;
+        entry.eventType = message.event_type || entry.eventType;
+        entry.timestamp = message.timing?.origin_timestamp || message.timing?.creation_timestamp || null;
+        entry.connected = true;
+        this.syncEvents.setState(this.eventsState);
+    }
+}
+
+
+interface EventConnection {
+    uri:string,
+    ws:WebSocket,
+    sources:string[],
+    healthTimer:any
+}
+
+export interface EventSourceState {
+    id:string,
+    label:string,
+    deviceId:string,
+    senderId:string,
+    eventType:string,
+    transport:"websocket"|"mqtt",
+    connected:boolean,
+    value:boolean|number|string|null,
+    unit:string|null,
+    timestamp:string|null
+}
+
+export interface EventsState {
+    sources:{ [sourceId:string]:EventSourceState }
+}
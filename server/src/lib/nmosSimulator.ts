@@ -0,0 +1,605 @@
+/*
+    NMOS Crosspoint
+    Copyright (C) 2021 Johannes Grieb
+*/
+
+import * as WebSocket from "ws";
+import * as sdpTransform from 'sdp-transform';
+import { SyncLog } from "./syncLog";
+import { ConnectionStub } from "./connectionStub";
+import { GetSdpLegParams } from "./legMapping";
+import { UtcToTai } from "./functions";
+
+const fs = require("fs");
+const express = require("express");
+const crypto = require('crypto');
+const md5 = data => crypto.createHash('md5').update(data).digest("hex")
+
+
+// In-process stand-in plant: IS-04 Query API (REST and WebSocket subscriptions) on simulator.queryPort and
+// IS-05 Connection API (ConnectionStub) on simulator.connectionPort, populated from simulator.file.
+// Activations update the subscription of the resource, a sender gets a new SDP file from its active parameters.
+
+
+const RESOURCE_TYPES = ["nodes", "devices", "sources", "flows", "senders", "receivers"];
+const QUERY_VERSIONS = ["v1.0", "v1.1", "v1.2", "v1.3"];
+
+export class NmosSimulator {
+    public static instance: NmosSimulator | null;
+
+    queryUrl:string;
+    settings:any = null;
+
+    private registryId:string;
+    private resources:{[type:string]:{[id:string]:any}} = {};
+    private senderMedia:{[senderId:string]:SimulatorSenderMedia} = {};
+    private interfaces:{[resourceId:string]:string[]} = {};
+    private subscriptions:{[id:string]:SimulatorSubscription} = {};
+    private lastVersion = 0;
+    private stub:ConnectionStub;
+    private wss:WebSocket.Server;
+
+    constructor(settings:any){
+        if(NmosSimulator.instance == null){
+            NmosSimulator.instance = this;
+        }
+        this.settings = settings;
+        this.queryUrl = "http://127.0.0.1:" + settings.simulator.queryPort;
+        this.registryId = this.uuid("registry");
+        RESOURCE_TYPES.forEach((type)=>{
+            this.resources[type] = {};
+        });
+
+        this.stub = new ConnectionStub(settings.simulator.connectionPort, (type, id)=>{
+            return this.resources[type]?.[id] || null;
+        }, (type, id, active)=>{
+            return this.activate(type, id, active);
+        }, "Simulator");
+
+        try {
+            let rawFile = fs.readFileSync(settings.simulator.file);
+            this.load(JSON.parse(rawFile));
+        } catch (e) {
+            SyncLog.log("error", "Simulator", "Error while reading file: " + settings.simulator.file, {message:e.message});
+        }
+
+        this.wss = new WebSocket.Server({ noServer: true });
+        let app = express();
+        app.use(express.json());
+
+        app.get("/x-nmos/query/", (req, res)=>{
+            res.json(QUERY_VERSIONS.map((v)=>v + "/"));
+        });
+
+        app.use("/x-nmos/query/:version/", (req, res, next)=>{
+            if(!QUERY_VERSIONS.includes(req.params.version)){
+                res.status(404).json({code:404, error:"API version not supported"});
+                return;
+            }
+            next();
+        });
+
+        app.get("/x-nmos/query/:version/", (req, res)=>{
+            res.json([...RESOURCE_TYPES, "subscriptions"].map((t)=>t + "/"));
+        });
+
+        app.get("/x-nmos/query/:version/subscriptions/", (req, res)=>{
+            res.json(Object.values(this.subscriptions).map((s)=>s.subscription));
+        });
+
+        app.get("/x-nmos/query/:version/subscriptions/:id", (req, res)=>{
+            let subscription = this.subscriptions[req.params.id];
+            if(!subscription){
+                res.status(404).json({code:404, error:"Subscription not found"});
+                return;
+            }
+            res.json(subscription.subscription);
+        });
+
+        app.post("/x-nmos/query/:version/subscriptions/", (req, res)=>{
+            let body = req.body || {};
+            let type = (typeof body.resource_path == "string") ? body.resource_path.split("/").join("") : "";
+            if(!RESOURCE_TYPES.includes(type)){
+                res.status(400).json({code:400, error:"Invalid resource_path: " + body.resource_path});
+                return;
+            }
+            let id = this.uuid("subscription_" + Date.now() + "_" + Math.random());
+            let subscription = {
+                id:id,
+                ws_href:"ws://127.0.0.1:" + settings.simulator.queryPort + "/x-nmos/query/" + req.params.version + "/subscriptions/" + id,
+                max_update_rate_ms:(typeof body.max_update_rate_ms == "number") ? body.max_update_rate_ms : 100,
+                persist:(body.persist === true),
+                secure:false,
+                authorization:false,
+                resource_path:"/" + type,
+                params:body.params || {},
+                version:this.nextVersion()
+            };
+            this.subscriptions[id] = {subscription:subscription, type:type, sockets:[]};
+            res.status(201).json(subscription);
+        });
+
+        app.delete("/x-nmos/query/:version/subscriptions/:id", (req, res)=>{
+            let subscription = this.subscriptions[req.params.id];
+            if(!subscription){
+                res.status(404).json({code:404, error:"Subscription not found"});
+                return;
+            }
+            if(!subscription.subscription.persist){
+                res.status(403).json({code:403, error:"Non-persistent subscriptions are removed with their last connection"});
+                return;
+            }
+            this.removeSubscription(req.params.id);
+            res.status(204).end();
+        });
+
+        app.get("/x-nmos/query/:version/:type/", (req, res)=>{
+            if(!RESOURCE_TYPES.includes(req.params.type)){
+                res.status(404).json({code:404, error:"Resource type not found"});
+                return;
+            }
+            res.json(Object.values(this.resources[req.params.type]).filter((r)=>MatchesBasicQuery(r, req.query)));
+        });
+
+        app.get("/x-nmos/query/:version/:type/:id", (req, res)=>{
+            let resource = this.resources[req.params.type]?.[req.params.id];
+            if(!resource){
+                res.status(404).json({code:404, error:"Resource not found"});
+                return;
+            }
+            res.json(resource);
+        });
+
+        app.all("/*", (req, res)=>{
+            res.status(404).json({code:404, error:"Not supported"});
+        });
+
+        const ls = app.listen(settings.simulator.queryPort, "127.0.0.1", ()=>{
+            SyncLog.log("info", "Simulator", "Query API listening to: " + this.queryUrl);
+        });
+        ls.on("error", (e)=>{
+            SyncLog.log("error", "Simulator", "Query API can not listen to: " + this.queryUrl, {message:e.message});
+        });
+        ls.on("upgrade", (request, socket, head) => {
+            let match = /^\/x-nmos\/query\/[^/]+\/subscriptions\/([^/?]+)/.exec(request.url || "");
+            let subscription = match ? this.subscriptions[match[1]] : null;
+            if(!subscription){
+                socket.destroy();
+                return;
+            }
+            this.wss.handleUpgrade(request, socket, head, (ws) => {
+                this.connectSubscription(subscription, ws);
+            });
+        });
+    }
+
+    // ----- Description
+
+    private load(description:any){
+        let nodeNum = 0;
+        let senderNum = 0;
+        (description.nodes || []).forEach((nodeConfig:any)=>{
+            nodeNum++;
+            let nodeLabel = nodeConfig.label || ("Node " + nodeNum);
+            let nodeId = nodeConfig.id || this.uuid("node_" + nodeLabel);
+            let interfaces:string[] = Array.isArray(nodeConfig.interfaces) ? nodeConfig.interfaces : ["192.168.10." + (10 + nodeNum), "192.168.20." + (10 + nodeNum)];
+            let interfaceNames = interfaces.map((ip, index)=>"eth" + index);
+
+            this.resources.nodes[nodeId] = {
+                ...this.baseResource(nodeId, nodeLabel),
+                href:this.queryUrl + "/",
+                hostname:nodeConfig.hostname || nodeLabel.toLowerCase().replace(/[^a-z0-9]+/g, "-") + ".local",
+                api:{versions:["v1.3"], endpoints:[]},
+                caps:{},
+                services:[],
+                clocks:[{name:"clk0", ref_type:"internal"}],
+                interfaces:interfaceNames.map((name)=>{
+                    return {name:name, chassis_id:null, port_id:md5(nodeId + name).slice(0, 12).match(/../g).join("-")};
+                })
+            };
+
+            (nodeConfig.devices || []).forEach((deviceConfig:any)=>{
+                let deviceLabel = deviceConfig.label || nodeLabel;
+                let deviceId = deviceConfig.id || this.uuid("device_" + nodeLabel + "_" + deviceLabel);
+                let device = {
+                    ...this.baseResource(deviceId, deviceLabel),
+                    type:"urn:x-nmos:device:generic",
+                    node_id:nodeId,
+                    senders:[],
+                    receivers:[],
+                    controls:[{type:"urn:x-nmos:control:sr-ctrl/v1.1", href:this.stub.baseUrl + "/x-nmos/connection/v1.1/", authorization:false}]
+                };
+                this.resources.devices[deviceId] = device;
+
+                (deviceConfig.senders || []).forEach((senderConfig:any)=>{
+                    senderNum++;
+                    let senderId = this.addSender(senderConfig, deviceId, deviceLabel, interfaces, interfaceNames, nodeNum, senderNum);
+                    device.senders.push(senderId);
+                });
+                (deviceConfig.receivers || []).forEach((receiverConfig:any)=>{
+                    let receiverId = this.addReceiver(receiverConfig, deviceId, deviceLabel, interfaces, interfaceNames);
+                    device.receivers.push(receiverId);
+                });
+            });
+        });
+        SyncLog.log("info", "Simulator", "Loaded " + Object.keys(this.resources.nodes).length + " nodes, " + Object.keys(this.resources.senders).length + " senders and " + Object.keys(this.resources.receivers).length + " receivers.");
+    }
+
+    private addSender(config:any, deviceId:string, deviceLabel:string, interfaces:string[], interfaceNames:string[], nodeNum:number, senderNum:number){
+        let label = config.label || ("Sender " + senderNum);
+        let format = ["video", "audio", "data"].includes(config.format) ? config.format : "video";
+        let senderId = config.id || this.uuid("sender_" + deviceId + "_" + label);
+        let sourceId = this.uuid("source_" + senderId);
+        let flowId = this.uuid("flow_" + senderId);
+        let legs = this.getLegCount(config, interfaces);
+        let multicast = Array.from({length:legs}, (v, leg)=>{
+            return (Array.isArray(config.multicast) && config.multicast[leg]) ? config.multicast[leg] : this.defaultMulticast(leg, nodeNum, senderNum);
+        });
+        let media:SimulatorSenderMedia = {
+            format:format,
+            width:config.width || 1920,
+            height:config.height || 1080,
+            rate:config.rate || {numerator:50, denominator:1},
+            channels:config.channels || 2,
+            sdp:(typeof config.sdp == "string") ? config.sdp : null,
+            multicast:multicast
+        };
+        this.senderMedia[senderId] = media;
+        this.interfaces[senderId] = interfaces.slice(0, legs);
+
+        this.resources.sources[sourceId] = {
+            ...this.baseResource(sourceId, label),
+            format:"urn:x-nmos:format:" + format,
+            caps:{},
+            device_id:deviceId,
+            parents:[],
+            clock_name:"clk0",
+            grain_rate:media.rate,
+            ...(format == "audio" ? {channels:Array.from({length:media.channels}, (v, i)=>({label:"Channel " + (i + 1)}))} : {})
+        };
+
+        let flow:any = {
+            ...this.baseResource(flowId, label),
+            format:"urn:x-nmos:format:" + format,
+            source_id:sourceId,
+            device_id:deviceId,
+            parents:[]
+        };
+        if(format == "video"){
+            flow = {...flow, grain_rate:media.rate, media_type:"video/raw", frame_width:media.width, frame_height:media.height, interlace_mode:"progressive", colorspace:"BT709", transfer_characteristic:"SDR", components:[
+                {name:"Y", width:media.width, height:media.height, bit_depth:10},
+                {name:"Cb", width:media.width / 2, height:media.height, bit_depth:10},
+                {name:"Cr", width:media.width / 2, height:media.height, bit_depth:10}
+            ]};
+        }else if(format == "audio"){
+            flow = {...flow, media_type:"audio/L24", sample_rate:{numerator:48000}, bit_depth:24};
+        }else{
+            flow = {...flow, grain_rate:media.rate, media_type:"video/smpte291"};
+        }
+        this.resources.flows[flowId] = flow;
+
+        let active = {
+            receiver_id:null,
+            master_enable:(config.active !== false),
+            activation:{mode:null, requested_time:null, activation_time:null},
+            transport_params:Array.from({length:legs}, (v, leg)=>{
+                return {
+                    source_ip:interfaces[leg],
+                    destination_ip:multicast[leg],
+                    source_port:5004,
+                    destination_port:5004,
+                    rtp_enabled:true
+                };
+            })
+        };
+        this.resources.senders[senderId] = {
+            ...this.baseResource(senderId, label),
+            flow_id:flowId,
+            transport:config.transport || "urn:x-nmos:transport:rtp.mcast",
+            device_id:deviceId,
+            manifest_href:this.stub.transportFileHref(senderId),
+            interface_bindings:interfaceNames.slice(0, legs),
+            subscription:{receiver_id:null, active:active.master_enable}
+        };
+        this.stub.setActive("senders", senderId, active);
+        this.stub.setConstraints("senders", senderId, this.getConstraints("senders", this.interfaces[senderId]));
+        this.stub.setTransportFile(senderId, this.getSdp(senderId, active));
+        return senderId;
+    }
+
+    private addReceiver(config:any, deviceId:string, deviceLabel:string, interfaces:string[], interfaceNames:string[]){
+        let label = config.label || "Receiver";
+        let format = ["video", "audio", "data"].includes(config.format) ? config.format : "video";
+        let receiverId = config.id || this.uuid("receiver_" + deviceId + "_" + label);
+        let legs = this.getLegCount(config, interfaces);
+        let mediaTypes = {video:["video/raw"], audio:["audio/L24", "audio/L16"], data:["video/smpte291"]};
+        this.interfaces[receiverId] = interfaces.slice(0, legs);
+
+        this.resources.receivers[receiverId] = {
+            ...this.baseResource(receiverId, label),
+            format:"urn:x-nmos:format:" + format,
+            caps:{media_types:config.mediaTypes || mediaTypes[format]},
+            device_id:deviceId,
+            transport:config.transport || "urn:x-nmos:transport:rtp",
+            interface_bindings:interfaceNames.slice(0, legs),
+            subscription:{sender_id:null, active:false}
+        };
+        this.stub.setActive("receivers", receiverId, {
+            sender_id:null,
+            master_enable:false,
+            activation:{mode:null, requested_time:null, activation_time:null},
+            transport_file:{data:null, type:null},
+            transport_params:Array.from({length:legs}, (v, leg)=>{
+                return {source_ip:null, multicast_ip:null, interface_ip:interfaces[leg], destination_port:5004, rtp_enabled:true};
+            })
+        });
+        this.stub.setConstraints("receivers", receiverId, this.getConstraints("receivers", this.interfaces[receiverId]));
+        return receiverId;
+    }
+
+    private baseResource(id:string, label:string){
+        return {id:id, version:this.nextVersion(), label:label, description:label, tags:{}};
+    }
+
+    private getLegCount(config:any, interfaces:string[]){
+        let legs = (typeof config.legs == "number") ? config.legs : interfaces.length;
+        return Math.max(1, Math.min(legs, interfaces.length));
+    }
+
+    private getConstraints(type:"senders"|"receivers", interfaces:string[]){
+        return interfaces.map((ip)=>{
+            if(type == "senders"){
+                return {source_ip:{enum:[ip]}, destination_ip:{}, source_port:{}, destination_port:{}, rtp_enabled:{}};
+            }
+            return {interface_ip:{enum:[ip]}, multicast_ip:{}, source_ip:{}, destination_port:{}, rtp_enabled:{}};
+        });
+    }
+
+    private defaultMulticast(leg:number, nodeNum:number, senderNum:number){
+        return "239." + (200 + leg) + "." + (nodeNum % 256) + "." + (senderNum % 256);
+    }
+
+    // Stable ids over restarts, so crosspoint numbers and aliases stay assigned
+    private uuid(name:string){
+        let h = md5("nmos-crosspoint-simulator_" + name);
+        return h.slice(0, 8) + "-" + h.slice(8, 12) + "-" + h.slice(12, 16) + "-" + h.slice(16, 20) + "-" + h.slice(20, 32);
+    }
+
+    // Versions of a resource have to increase, also for several changes in the same millisecond
+    private nextVersion(){
+        this.lastVersion = Math.max(Date.now(), this.lastVersion + 1);
+        return UtcToTai(this.lastVersion);
+    }
+
+    // ----- Connection API
+
+    // "auto" is resolved like a device would, the resource gets the new subscription and version
+    private activate(type:string, id:string, active:any){
+        let resource = this.resources[type]?.[id];
+        if(!resource){
+            return active;
+        }
+        let interfaces = this.interfaces[id] || [];
+        let pre = structuredClone(resource);
+
+        if(type == "senders"){
+            active.transport_params.forEach((leg, index)=>{
+                if(leg.source_ip == "auto"){
+                    leg.source_ip = interfaces[index];
+                }
+                if(leg.destination_ip == "auto"){
+                    leg.destination_ip = this.senderMedia[id].multicast[index];
+                }
+                ["source_port", "destination_port"].forEach((p)=>{
+                    if(leg[p] == "auto"){
+                        leg[p] = 5004;
+                    }
+                });
+            });
+            resource.subscription = {receiver_id:active.receiver_id || null, active:active.master_enable};
+            this.stub.setTransportFile(id, this.getSdp(id, active));
+        }else{
+            let sdp = active.transport_file?.data;
+            active.transport_params.forEach((leg, index)=>{
+                if(typeof sdp == "string" && sdp != ""){
+                    let sdpParams = GetSdpLegParams(sdp, index);
+                    Object.keys(sdpParams).forEach((p)=>{
+                        if(leg[p] === null || leg[p] == "auto" || leg[p] === undefined){
+                            leg[p] = sdpParams[p];
+                        }
+                    });
+                }
+                if(leg.interface_ip == "auto"){
+                    leg.interface_ip = interfaces[index];
+                }
+                if(leg.destination_port == "auto"){
+                    leg.destination_port = 5004;
+                }
+            });
+            resource.subscription = {sender_id:active.sender_id || null, active:active.master_enable};
+        }
+
+        resource.version = this.nextVersion();
+        this.notify(type, id, pre, resource);
+        SyncLog.log("verbose", "Simulator", "Activated " + type + " " + id, {active:active});
+        return active;
+    }
+
+    // SDP of a sender, built from the active parameters (or the SDP of the description with the active addresses)
+    private getSdp(senderId:string, active:any){
+        let media = this.senderMedia[senderId];
+        let sender = this.resources.senders[senderId];
+        let legs = active.transport_params;
+        let sessionVersion = this.lastVersion;
+
+        if(media.sdp){
+            try{
+                let session:any = sdpTransform.parse(media.sdp);
+                if(session.origin){
+                    session.origin.sessionVersion = sessionVersion;
+                }
+                session.media.forEach((m:any, index:number)=>{
+                    let leg = legs[index];
+                    if(!leg){
+                        return;
+                    }
+                    m.port = leg.destination_port;
+                    m.connection = {version:4, ip:leg.destination_ip + "/64"};
+                    m.sourceFilter = {filterMode:"incl", netType:"IN", addressTypes:"IP4", destAddress:leg.destination_ip, srcList:leg.source_ip};
+                });
+                return sdpTransform.write(session);
+            }catch(e){
+                SyncLog.log("warning", "Simulator", "Invalid SDP in description of sender " + senderId + ", generated SDP is used.", {message:e.message});
+            }
+        }
+
+        let rate = media.rate.numerator + (media.rate.denominator && media.rate.denominator != 1 ? "/" + media.rate.denominator : "");
+        let lines = [
+            "v=0",
+            "o=- " + parseInt(md5(senderId).slice(0, 8), 16) + " " + sessionVersion + " IN IP4 " + legs[0].source_ip,
+            "s=" + (sender?.label || senderId),
+            "t=0 0"
+        ];
+        if(legs.length > 1){
+            lines.push("a=group:DUP " + legs.map((l, index)=>(index == 0 ? "primary" : "secondary" + (index > 1 ? index : ""))).join(" "));
+        }
+        legs.forEach((leg, index)=>{
+            if(media.format == "audio"){
+                lines.push("m=audio " + leg.destination_port + " RTP/AVP 97");
+            }else{
+                lines.push("m=video " + leg.destination_port + " RTP/AVP " + (media.format == "video" ? 96 : 100));
+            }
+            lines.push("c=IN IP4 " + leg.destination_ip + "/64");
+            lines.push("a=source-filter: incl IN IP4 " + leg.destination_ip + " " + leg.source_ip);
+            if(media.format == "video"){
+                lines.push("a=rtpmap:96 raw/90000");
+                lines.push("a=fmtp:96 sampling=YCbCr-4:2:2; width=" + media.width + "; height=" + media.height + "; exactframerate=" + rate + "; depth=10; TCS=SDR; colorimetry=BT709; PM=2110GPM; SSN=ST2110-20:2017; TP=2110TPN;");
+            }else if(media.format == "audio"){
+                lines.push("a=rtpmap:97 L24/48000/" + media.channels);
+                lines.push("a=ptime:1");
+            }else{
+                lines.push("a=rtpmap:100 smpte291/90000");
+            }
+            lines.push("a=mediaclk:direct=0");
+            if(legs.length > 1){
+                lines.push("a=mid:" + (index == 0 ? "primary" : "secondary" + (index > 1 ? index : "")));
+            }
+        });
+        return lines.join("\r\n") + "\r\n";
+    }
+
+    // ----- Query API subscriptions
+
+    private connectSubscription(subscription:SimulatorSubscription, ws:WebSocket){
+        subscription.sockets.push(ws);
+        ws.on("close", ()=>{
+            subscription.sockets = subscription.sockets.filter((s)=>s != ws);
+            if(subscription.sockets.length == 0 && !subscription.subscription.persist){
+                this.removeSubscription(subscription.subscription.id);
+            }
+        });
+        ws.on("error", ()=>{});
+
+        // First grain of a subscription contains all matching resources
+        let data = Object.keys(this.resources[subscription.type]).map((id)=>{
+            let resource = this.resources[subscription.type][id];
+            return {path:id, pre:resource, post:resource};
+        }).filter((g)=>MatchesBasicQuery(g.post, subscription.subscription.params));
+        this.sendGrain(subscription, ws, data);
+    }
+
+    private removeSubscription(id:string){
+        let subscription = this.subscriptions[id];
+        if(!subscription){
+            return;
+        }
+        delete this.subscriptions[id];
+        subscription.sockets.forEach((ws)=>{
+            try{
+                ws.close();
+            }catch(e){}
+        });
+    }
+
+    private notify(type:string, id:string, pre:any, post:any){
+        Object.values(this.subscriptions).forEach((subscription)=>{
+            if(subscription.type != type){
+                return;
+            }
+            let params = subscription.subscription.params;
+            let wasIncluded = pre != null && MatchesBasicQuery(pre, params);
+            let isIncluded = post != null && MatchesBasicQuery(post, params);
+            if(!wasIncluded && !isIncluded){
+                return;
+            }
+            // Resources leaving the filter are sent as removal
+            let grain:any = {path:id};
+            if(wasIncluded){
+                grain.pre = pre;
+            }
+            if(isIncluded){
+                grain.post = post;
+            }
+            subscription.sockets.forEach((ws)=>{
+                this.sendGrain(subscription, ws, [grain]);
+            });
+        });
+    }
+
+    private sendGrain(subscription:SimulatorSubscription, ws:WebSocket, data:any[]){
+        if(ws.readyState != WebSocket.OPEN){
+            return;
+        }
+        let timestamp = UtcToTai(Date.now());
+        ws.send(JSON.stringify({
+            grain_type:"event",
+            source_id:this.registryId,
+            flow_id:subscription.subscription.id,
+            origin_timestamp:timestamp,
+            sync_timestamp:timestamp,
+            creation_timestamp:timestamp,
+            rate:{numerator:0, denominator:1},
+            duration:{numerator:0, denominator:1},
+            grain:{
+                type:"urn:x-nmos:format:data.event",
+                topic:subscription.subscription.resource_path + "/",
+                data:data
+            }
+        }));
+    }
+}
+
+
+// IS-04 basic queries: every parameter (dotted path) has to match, paging and query options are ignored
+function MatchesBasicQuery(resource:any, params:any){
+    if(!params){
+        return true;
+    }
+    return Object.keys(params).every((key)=>{
+        if(key.startsWith("paging.") || key.startsWith("query.")){
+            return true;
+        }
+        // tag names contain dots themselves
+        let value = key.startsWith("tags.") ? resource.tags?.[key.slice(5)] : key.split(".").reduce((v, k)=>(v == null ? undefined : v[k]), resource);
+        if(Array.isArray(value)){
+            return value.some((v)=>String(v) == String(params[key]));
+        }
+        return String(value) == String(params[key]);
+    });
+}
+
+interface SimulatorSubscription {
+    subscription:any,
+    type:string,
+    sockets:WebSocket[]
+}
+
+interface SimulatorSenderMedia {
+    format:"video"|"audio"|"data",
+    width:number,
+    height:number,
+    rate:{numerator:number, denominator?:number},
+    channels:number,
+    sdp:string|null,
+    multicast:string[]
+}
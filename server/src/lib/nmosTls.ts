@@ -0,0 +1,94 @@
+/*
+    NMOS Crosspoint
+    Copyright (C) 2021 Johannes Grieb
+*/
+
+import axios from "axios";
+import { SyncLog } from "./syncLog";
+
+const fs = require("fs");
+const https = require("https");
+const nodeTls = require("tls");
+
+
+// BCP-003-01 TLS for registries, Node APIs, SDP files, IS-05 and IS-08: CA bundles, client certificate and
+// certificate checks disabled per host (tls.ignoreHttpsHosts) or for all hosts (tls.ignoreHttps, as in the Matrox module).
+// Used for every axios request without its own httpsAgent and for WebSocket connections.
+
+
+export class NmosTls {
+    public static instance: NmosTls | null;
+
+    settings:any = null;
+
+    private options:any = {};
+    private agent:any = null;
+    private ignoreAgent:any = null;
+
+    constructor(settings:any){
+        if(NmosTls.instance == null){
+            NmosTls.instance = this;
+        }
+        this.settings = settings;
+
+        let tls = settings.tls;
+        let ca = tls.caFiles.map((file)=>this.readFile(file)).filter((c)=>c != null);
+        // ca replaces the default trust store, the public CAs stay trusted for requests of other modules
+        if(ca.length > 0){
+            this.options.ca = [...nodeTls.rootCertificates, ...ca];
+        }
+        if(tls.certFile != "" && tls.keyFile != ""){
+            let cert = this.readFile(tls.certFile);
+            let key = this.readFile(tls.keyFile);
+            if(cert && key){
+                this.options.cert = cert;
+                this.options.key = key;
+                if(tls.passphrase != ""){
+                    this.options.passphrase = tls.passphrase;
+                }
+            }
+        }
+
+        this.agent = new https.Agent({...this.options, rejectUnauthorized:!tls.ignoreHttps, keepAlive:true});
+        this.ignoreAgent = new https.Agent({...this.options, rejectUnauthorized:false, keepAlive:true});
+
+        axios.interceptors.request.use((config)=>{
+            if(!config.httpsAgent){
+                config.httpsAgent = this.getAgent(config.url || "");
+            }
+            return config;
+        });
+    }
+
+    getAgent(href:string){
+        return this.ignoreCertificate(href) ? this.ignoreAgent : this.agent;
+    }
+
+    // Options for new WebSocket(url, options), wss:// only
+    getWebSocketOptions(href:string){
+        if(!href.startsWith("wss:")){
+            return {};
+        }
+        return {...this.options, rejectUnauthorized:!this.ignoreCertificate(href)};
+    }
+
+    private ignoreCertificate(href:string){
+        if(this.settings.tls.ignoreHttps){
+            return true;
+        }
+        try{
+            return this.settings.tls.ignoreHttpsHosts.includes(new URL(href).hostname);
+        }catch(e){
+            return false;
+        }
+    }
+
+    private readFile(file:string){
+        try{
+            return fs.readFileSync(file);
+        }catch(e){
+            SyncLog.log("error", "TLS", "Error while reading file: " + file, {message:e.message});
+            return null;
+        }
+    }
+}
@@ -43,6 +43,244 @@ export function parseSettings(settings:any){
     }
 
 
+    if(!settings.hasOwnProperty("nmos")){
+        settings.nmos = {};
+    }
+
+    if(!settings.nmos.hasOwnProperty("registryVersions")){
+        settings.nmos.registryVersions = ["v1.3","v1.2"];
+    }
+
+    if(!settings.nmos.hasOwnProperty("connectVersions")){
+        settings.nmos.connectVersions = ["v1.1", "v1.0"];
+    }
+
+    if(!settings.nmos.hasOwnProperty("registryFailbackDelay")){
+        settings.nmos.registryFailbackDelay = 10000;
+    }else{
+        if(typeof settings.nmos.registryFailbackDelay != "number" || settings.nmos.registryFailbackDelay < 0){
+            settings.nmos.registryFailbackDelay = 10000;
+        }
+    }
+
+    if(!settings.nmos.hasOwnProperty("staleGracePeriod")){
+        settings.nmos.staleGracePeriod = 30000;
+    }else{
+        if(typeof settings.nmos.staleGracePeriod != "number" || settings.nmos.staleGracePeriod < 0){
+            settings.nmos.staleGracePeriod = 30000;
+        }
+    }
+
+    if(!["auto", "always", "off"].includes(settings.nmos.peerToPeer)){
+        settings.nmos.peerToPeer = "auto";
+    }
+
+    if(typeof settings.nmos.peerToPeerTimeout != "number" || settings.nmos.peerToPeerTimeout < 0){
+        settings.nmos.peerToPeerTimeout = 15000;
+    }
+
+    if(typeof settings.nmos.peerToPeerPollInterval != "number" || settings.nmos.peerToPeerPollInterval < 1000){
+        settings.nmos.peerToPeerPollInterval = 5000;
+    }
+
+    if(!settings.nmos.hasOwnProperty("queryFilter")){
+        settings.nmos.queryFilter = {};
+    }
+
+    if(typeof settings.nmos.queryFilter.params != "object" || settings.nmos.queryFilter.params == null){
+        settings.nmos.queryFilter.params = {};
+    }
+
+    if(typeof settings.nmos.queryFilter.rql == "string"){
+        settings.nmos.queryFilter.rql = {"*":settings.nmos.queryFilter.rql};
+    }else if(typeof settings.nmos.queryFilter.rql != "object" || settings.nmos.queryFilter.rql == null){
+        settings.nmos.queryFilter.rql = {};
+    }
+
+    if(!settings.nmos.hasOwnProperty("auth")){
+        settings.nmos.auth = {};
+    }
+
+    if(typeof settings.nmos.auth.enabled != "boolean"){
+        settings.nmos.auth.enabled = false;
+    }
+
+    ["server", "clientId", "clientSecret"].forEach((key)=>{
+        if(typeof settings.nmos.auth[key] != "string"){
+            settings.nmos.auth[key] = "";
+        }
+    });
+
+    if(!Array.isArray(settings.nmos.auth.scopes)){
+        settings.nmos.auth.scopes = ["registration", "query", "connection", "channelmapping"];
+    }
+
+    if(typeof settings.nmos.auth.refreshMargin != "number" || settings.nmos.auth.refreshMargin < 0){
+        settings.nmos.auth.refreshMargin = 30000;
+    }
+
+    ["include", "exclude"].forEach((list)=>{
+        if(!Array.isArray(settings.nmos.queryFilter[list])){
+            settings.nmos.queryFilter[list] = [];
+        }
+        settings.nmos.queryFilter[list] = settings.nmos.queryFilter[list].filter((rule)=>{
+            return rule && ["label", "tag", "hostname", "grouphint"].includes(rule.field) && typeof rule.match == "string" && (rule.field != "tag" || typeof rule.tag == "string");
+        });
+    });
+
+
+    if(!settings.hasOwnProperty("inactiveSenders")){
+        settings.inactiveSenders = {};
+    }
+
+    if(!["refuse", "warn", "enable"].includes(settings.inactiveSenders.policy)){
+        settings.inactiveSenders.policy = "warn";
+    }
+
+    if(typeof settings.inactiveSenders.enableTimeout != "number" || settings.inactiveSenders.enableTimeout < 0){
+        settings.inactiveSenders.enableTimeout = 10000;
+    }
+
+    if(!settings.hasOwnProperty("legMapping")){
+        settings.legMapping = {};
+    }
+
+    if(!["network", "index"].includes(settings.legMapping.mode)){
+        settings.legMapping.mode = "index";
+    }
+
+    if(typeof settings.legMapping.prefixLength != "number" || settings.legMapping.prefixLength < 0 || settings.legMapping.prefixLength > 32){
+        settings.legMapping.prefixLength = 24;
+    }
+
+    if(!Array.isArray(settings.legMapping.networks)){
+        settings.legMapping.networks = [];
+    }
+    settings.legMapping.networks = settings.legMapping.networks.filter((n)=>{
+        return typeof n.name == "string" && Array.isArray(n.subnets);
+    });
+
+    if(typeof settings.multicastRanges == "object" && settings.multicastRanges != null){
+        for(let type in settings.multicastRanges){
+            let range = settings.multicastRanges[type];
+            if(typeof range != "object" || range == null){
+                continue;
+            }
+            if(!["off", "source", "filter"].includes(range.ssm)){
+                range.ssm = "off";
+            }
+            if(range.hasOwnProperty("policy") && !["sequential", "device", "random"].includes(range.policy)){
+                delete range.policy;
+            }
+        }
+    }
+
+
+    if(!settings.hasOwnProperty("resourceHistory")){
+        settings.resourceHistory = {};
+    }
+
+    if(typeof settings.resourceHistory.maxEntries != "number" || settings.resourceHistory.maxEntries < 1){
+        settings.resourceHistory.maxEntries = 50;
+    }
+
+    if(typeof settings.resourceHistory.maxAge != "number" || settings.resourceHistory.maxAge < 0){
+        settings.resourceHistory.maxAge = 604800000;
+    }
+
+    if(!settings.hasOwnProperty("multicastAllocation")){
+        settings.multicastAllocation = {};
+    }
+
+    if(!["sequential", "device", "random"].includes(settings.multicastAllocation.policy)){
+        settings.multicastAllocation.policy = "random";
+    }
+
+    if(!settings.hasOwnProperty("tls")){
+        settings.tls = {};
+    }
+
+    if(typeof settings.tls.caFiles == "string"){
+        settings.tls.caFiles = [settings.tls.caFiles];
+    }else if(!Array.isArray(settings.tls.caFiles)){
+        settings.tls.caFiles = [];
+    }
+
+    ["certFile", "keyFile", "passphrase"].forEach((key)=>{
+        if(typeof settings.tls[key] != "string"){
+            settings.tls[key] = "";
+        }
+    });
+
+    if(typeof settings.tls.ignoreHttps != "boolean"){
+        settings.tls.ignoreHttps = false;
+    }
+
+    if(!Array.isArray(settings.tls.ignoreHttpsHosts)){
+        settings.tls.ignoreHttpsHosts = [];
+    }
+
+    if(!settings.hasOwnProperty("capture")){
+        settings.capture = {};
+    }
+
+    if(typeof settings.capture.enabled != "boolean"){
+        settings.capture.enabled = false;
+    }
+
+    if(typeof settings.capture.path != "string" || settings.capture.path == ""){
+        settings.capture.path = "./state/captures/";
+    }
+
+    if(!settings.hasOwnProperty("replay")){
+        settings.replay = {};
+    }
+
+    if(typeof settings.replay.file != "string"){
+        settings.replay.file = "";
+    }
+
+    if(typeof settings.replay.speed != "number" || settings.replay.speed <= 0){
+        settings.replay.speed = 1;
+    }
+
+    if(typeof settings.replay.loop != "boolean"){
+        settings.replay.loop = false;
+    }
+
+    if(typeof settings.replay.stubPort != "number"){
+        settings.replay.stubPort = 8099;
+    }
+
+    if(!settings.hasOwnProperty("simulator")){
+        settings.simulator = {};
+    }
+
+    if(typeof settings.simulator.enabled != "boolean"){
+        settings.simulator.enabled = false;
+    }
+
+    if(typeof settings.simulator.file != "string" || settings.simulator.file == ""){
+        settings.simulator.file = "./config/simulator.json";
+    }
+
+    if(typeof settings.simulator.queryPort != "number"){
+        settings.simulator.queryPort = 8097;
+    }
+
+    if(typeof settings.simulator.connectionPort != "number"){
+        settings.simulator.connectionPort = 8098;
+    }
+
+    if(!settings.hasOwnProperty("locks")){
+        settings.locks = {};
+    }
+
+    if(typeof settings.locks.adminGroups == "string"){
+        settings.locks.adminGroups = [settings.locks.adminGroups];
+    }else if(!Array.isArray(settings.locks.adminGroups)){
+        settings.locks.adminGroups = ["admin"];
+    }
 
 
     return settings;
@@ -0,0 +1,79 @@
+/*
+    NMOS Crosspoint
+    Copyright (C) 2021 Johannes Grieb
+*/
+
+
+// Limits the resources taken from the registries (nmos.queryFilter):
+//  params, rql:       sent with the Query API subscription per resource path ("*" for all), filtered by the registry
+//  include, exclude:  rules checked against a resource, its device and its node before it reaches the state
+
+
+export interface QueryFilterRule {
+    field:"label"|"tag"|"hostname"|"grouphint",
+    match:string,
+    tag?:string
+}
+
+const GROUPHINT_TAG = "urn:x-nmos:tag:grouphint/v1.0";
+
+const regexCache:{[match:string]:RegExp|null} = {};
+
+// Basic query parameters and RQL (query.rql) of a subscription, resource is "/senders" or "senders"
+export function GetSubscriptionParams(queryFilter:any, resource:string){
+    let type = resource.split("/").join("");
+    let params = {...(queryFilter.params["*"] || {}), ...(queryFilter.params[type] || {})};
+    let rql = queryFilter.rql.hasOwnProperty(type) ? queryFilter.rql[type] : queryFilter.rql["*"];
+    if(typeof rql == "string" && rql != ""){
+        params["query.rql"] = rql;
+    }
+    return params;
+}
+
+export function HasFilterRules(queryFilter:any){
+    return queryFilter.include.length > 0 || queryFilter.exclude.length > 0;
+}
+
+// chain: the resource, followed by its device and node if they are known
+export function AcceptedByFilterRules(queryFilter:any, chain:any[]){
+    let matches = (rule:QueryFilterRule)=>chain.some((resource)=>RuleMatches(rule, resource));
+    if(queryFilter.include.length > 0 && !queryFilter.include.some(matches)){
+        return false;
+    }
+    return !queryFilter.exclude.some(matches);
+}
+
+function RuleMatches(rule:QueryFilterRule, resource:any){
+    if(!resource){
+        return false;
+    }
+    if(!regexCache.hasOwnProperty(rule.match)){
+        try{
+            regexCache[rule.match] = new RegExp(rule.match);
+        }catch(e){
+            regexCache[rule.match] = null;
+        }
+    }
+    let regex = regexCache[rule.match];
+    if(!regex){
+        return false;
+    }
+
+    let values:any[] = [];
+    switch(rule.field){
+        case "label":
+            values = [resource.label];
+            break;
+        case "hostname":
+            values = [resource.hostname];
+            break;
+        case "tag":
+            values = resource.tags?.[rule.tag] || [];
+            break;
+        case "grouphint":
+            // "<group name>:<role in group>"
+            values = resource.tags?.[GROUPHINT_TAG] || [];
+            break;
+    }
+    return values.some((v)=>typeof v == "string" && regex.test(v));
+}
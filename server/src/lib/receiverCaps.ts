@@ -0,0 +1,114 @@
+/*
+    NMOS Crosspoint
+    Copyright (C) 2021 Johannes Grieb
+*/
+
+
+// BCP-004-01 Receiver Capabilities
+// Returns a list of reasons why the receiver can not handle the flow of a sender, an empty list if it is compatible.
+// Constraints on parameters that are unknown or not present in the flow are treated as satisfied.
+export function CheckReceiverCaps(receiver:any, sender:any, flow:any, source:any):string[]{
+    let issues:string[] = [];
+    if(!receiver || !receiver.caps || !flow){
+        return issues;
+    }
+
+    if(Array.isArray(receiver.caps.media_types) && flow.media_type && !receiver.caps.media_types.includes(flow.media_type)){
+        issues.push("media type " + flow.media_type + " not supported (" + receiver.caps.media_types.join(", ") + ")");
+        return issues;
+    }
+
+    if(!Array.isArray(receiver.caps.constraint_sets)){
+        return issues;
+    }
+
+    let values = getFlowCapValues(flow, source);
+    let setIssues:string[] = [];
+    let enabledSets = 0;
+
+    for(let set of receiver.caps.constraint_sets){
+        if(set["urn:x-nmos:cap:meta:enabled"] === false){
+            continue;
+        }
+        enabledSets++;
+        let failed = null;
+        for(let param of Object.keys(set)){
+            if(param.startsWith("urn:x-nmos:cap:meta:") || !values.hasOwnProperty(param) || values[param] === undefined || values[param] === null){
+                continue;
+            }
+            failed = checkConstraint(param, set[param], values[param]);
+            if(failed){
+                break;
+            }
+        }
+        if(failed == null){
+            return [];
+        }
+        let label = set["urn:x-nmos:cap:meta:label"] ? " (" + set["urn:x-nmos:cap:meta:label"] + ")" : "";
+        setIssues.push("constraint set " + enabledSets + label + ": " + failed);
+    }
+
+    return setIssues;
+}
+
+
+function getFlowCapValues(flow:any, source:any){
+    let values:any = {
+        "urn:x-nmos:cap:format:media_type": flow.media_type,
+        "urn:x-nmos:cap:format:grain_rate": flow.grain_rate || source?.grain_rate,
+        "urn:x-nmos:cap:format:frame_width": flow.frame_width,
+        "urn:x-nmos:cap:format:frame_height": flow.frame_height,
+        "urn:x-nmos:cap:format:interlace_mode": flow.interlace_mode,
+        "urn:x-nmos:cap:format:colorspace": flow.colorspace,
+        "urn:x-nmos:cap:format:transfer_characteristic": flow.transfer_characteristic,
+        "urn:x-nmos:cap:format:component_depth": (Array.isArray(flow.components) && flow.components.length > 0) ? flow.components[0].bit_depth : undefined,
+        "urn:x-nmos:cap:format:sample_rate": flow.sample_rate,
+        "urn:x-nmos:cap:format:sample_depth": flow.bit_depth,
+        "urn:x-nmos:cap:format:channel_count": Array.isArray(source?.channels) ? source.channels.length : undefined,
+        "urn:x-nmos:cap:format:profile": flow.profile,
+        "urn:x-nmos:cap:format:level": flow.level,
+        "urn:x-nmos:cap:format:sublevel": flow.sublevel,
+        "urn:x-nmos:cap:transport:bit_rate": flow.bit_rate,
+    };
+    return values;
+}
+
+function checkConstraint(param:string, constraint:any, value:any):string|null{
+    let name = param.split(":").pop();
+    if(Array.isArray(constraint.enum)){
+        if(!constraint.enum.some((e)=>compareValue(e, value) == 0)){
+            return name + " " + renderValue(value) + " not in [" + constraint.enum.map((e)=>renderValue(e)).join(", ") + "]";
+        }
+    }
+    if(constraint.hasOwnProperty("minimum") && compareValue(value, constraint.minimum) < 0){
+        return name + " " + renderValue(value) + " below minimum " + renderValue(constraint.minimum);
+    }
+    if(constraint.hasOwnProperty("maximum") && compareValue(value, constraint.maximum) > 0){
+        return name + " " + renderValue(value) + " above maximum " + renderValue(constraint.maximum);
+    }
+    return null;
+}
+
+// numbers, strings and rationals ({numerator, denominator})
+function compareValue(a:any, b:any){
+    if(typeof a == "object" && a !== null && a.hasOwnProperty("numerator")){
+        a = a.numerator / (a.denominator || 1);
+    }
+    if(typeof b == "object" && b !== null && b.hasOwnProperty("numerator")){
+        b = b.numerator / (b.denominator || 1);
+    }
+    if(typeof a == "number" && typeof b == "number"){
+        if(Math.abs(a - b) < 0.0001){
+            return 0;
+        }
+        return a < b ? -1 : 1;
+    }
+    return (a == b) ? 0 : (a < b ? -1 : 1);
+}
+
+function renderValue(value:any){
+    if(typeof value == "object" && value !== null && value.hasOwnProperty("numerator")){
+        return value.numerator + "/" + (value.denominator || 1);
+    }
+    return "" + value;
+}
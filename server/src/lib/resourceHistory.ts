@@ -0,0 +1,152 @@
+/*
+    NMOS Crosspoint
+    Copyright (C) 2021 Johannes Grieb
+*/
+
+import { WebsocketSyncServer } from "./SyncServer/websocketSyncServer";
+import { WebsocketClient } from "./SyncServer/websocketClient";
+import { SyncLog } from "./syncLog";
+
+const fs = require("fs");
+
+
+// Change history of every NMOS resource and of the SDP files of senders, stored in ./state/resourceHistory.json
+export class ResourceHistory {
+    public static instance: ResourceHistory | null;
+
+    private history: {[id:string]:ResourceHistoryEntry[]} = {};
+    private saveTimer:any = null;
+    settings:any = null;
+
+    constructor(settings:any){
+        if(ResourceHistory.instance == null){
+            ResourceHistory.instance = this;
+        }
+        this.settings = settings;
+
+        try {
+            let rawFile = fs.readFileSync("./state/resourceHistory.json");
+            this.history = JSON.parse(rawFile);
+        } catch (e) {
+            SyncLog.log("warning", "Resource History", "Error while reading file: ./state/resourceHistory.json, file will be created on first use.");
+        }
+        this.prune();
+
+        setInterval(()=>{
+            this.prune();
+        },3600000);
+
+        WebsocketSyncServer.getInstance().addRoute("GET", "resourceHistory","global", (client: WebsocketClient, query:string[]) => {
+            return new Promise((resolve, reject) => {
+                if(!query[0]){
+                    reject({status:400, message:"No resource id given."});
+                    return;
+                }
+                resolve(this.get(query[0]));
+            });
+        });
+    }
+
+    // Crosspoint ids (nmos_...) are accepted as well
+    get(id:string){
+        if(id.startsWith("nmos_")){
+            id = id.slice(5);
+        }
+        return {id:id, entries:this.history[id] || []};
+    }
+
+    // Adds a change of a registry resource, the internal _source... fields and pure version changes are ignored.
+    // A resource seen again after a restart or a registry failover is only recorded as created if it was deleted before.
+    recordResource(type:string, id:string, op:"create"|"update"|"delete", resource:any, patch:any[], registry:string, apiVersion:string){
+        patch = patch.filter((p)=>!p.path.startsWith("/_"));
+        if(op == "update" && patch.every((p)=>p.path == "/version")){
+            return;
+        }
+        let entries = this.history[id];
+        if(op == "create" && entries && entries.length > 0 && entries[entries.length - 1].op != "delete"){
+            return;
+        }
+        this.add(id, {
+            timestamp:Date.now(),
+            type:type,
+            op:op,
+            registry:registry,
+            apiVersion:apiVersion,
+            version:resource?.version || null,
+            patch:patch
+        });
+    }
+
+    // Adds a change of the SDP file of a sender, the patch is between the parsed SDP files
+    recordSdp(senderId:string, registry:string, patch:any[]){
+        if(patch.length == 0){
+            return;
+        }
+        this.add(senderId, {
+            timestamp:Date.now(),
+            type:"sdp",
+            op:"update",
+            registry:registry,
+            apiVersion:null,
+            version:null,
+            patch:patch
+        });
+    }
+
+    private add(id:string, entry:ResourceHistoryEntry){
+        if(!this.history.hasOwnProperty(id)){
+            this.history[id] = [];
+        }
+        this.history[id].push(entry);
+        if(this.history[id].length > this.settings.resourceHistory.maxEntries){
+            this.history[id].splice(0, this.history[id].length - this.settings.resourceHistory.maxEntries);
+        }
+        this.save();
+    }
+
+    // Removes entries older than resourceHistory.maxAge
+    private prune(){
+        let limit = Date.now() - this.settings.resourceHistory.maxAge;
+        let changed = false;
+        for(let id of Object.keys(this.history)){
+            let entries = this.history[id].filter((e)=>e.timestamp >= limit);
+            if(entries.length != this.history[id].length){
+                changed = true;
+                if(entries.length == 0){
+                    delete this.history[id];
+                }else{
+                    this.history[id] = entries;
+                }
+            }
+        }
+        if(changed){
+            this.save();
+        }
+    }
+
+    // Bursts of grains are written once
+    private save(){
+        if(this.saveTimer){
+            return;
+        }
+        this.saveTimer = setTimeout(()=>{
+            this.saveTimer = null;
+            try{
+                fs.writeFileSync("./state/resourceHistory.json", JSON.stringify(this.history));
+            }catch(e){
+                console.error("Error writing to file: ./state/resourceHistory.json");
+            }
+        },5000);
+    }
+}
+
+
+export interface ResourceHistoryEntry {
+    timestamp:number,
+    type:string,
+    op:"create"|"update"|"delete",
+    registry:string,
+    apiVersion:string|null,
+    version:string|null,
+    patch:any[]
+}
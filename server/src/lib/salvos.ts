@@ -0,0 +1,203 @@
+/*
+    NMOS Crosspoint
+    Copyright (C) 2021 Johannes Grieb
+*/
+
+import { SyncObject } from "./SyncServer/syncObject";
+import { SyncLog } from "./syncLog";
+import { CrosspointAbstraction, CrosspointDevice, CrosspointFlow, FLOW_TYPE_LETTERS } from "./crosspointAbstraction";
+
+const fs = require("fs");
+
+
+// Named salvos: the routing of a set of destinations, captured from the crosspoint and recalled as one "multiple" connection.
+// Flows are stored by id, so a salvo stays valid if crosspoint numbers change. Stored in ./state/salvos.json
+
+
+export class Salvos {
+    public static instance: Salvos | null;
+
+    public syncSalvos: SyncObject;
+    private state: SalvoState = {salvos:{}};
+
+    constructor(){
+        if(Salvos.instance == null){
+            Salvos.instance = this;
+        }
+        try {
+            let rawFile = fs.readFileSync("./state/salvos.json");
+            this.state.salvos = JSON.parse(rawFile);
+        } catch (e) {
+            SyncLog.log("warning", "Salvos", "Error while reading file: ./state/salvos.json, file will be created on first use.");
+        }
+        this.syncSalvos = new SyncObject("salvos", this.state);
+    }
+
+    // destinations: crosspoint flow ids or addresses as in makeconnection ("<device>" or "<device>.<type><flow>")
+    capture(data:any, user:string){
+        return new Promise((resolve, reject) => {
+            let name = (typeof data.name == "string") ? data.name.trim() : "";
+            if(name == ""){
+                reject({status:400, message:"Salvo name missing."});
+                return;
+            }
+            if(!Array.isArray(data.destinations) || data.destinations.length == 0){
+                reject({status:400, message:"No destinations given."});
+                return;
+            }
+
+            let entries:SalvoEntry[] = [];
+            let unknown:string[] = [];
+            data.destinations.forEach((destination)=>{
+                let receivers = this.findReceivers(destination + "");
+                if(receivers.length == 0){
+                    unknown.push(destination + "");
+                }
+                receivers.forEach((dst)=>{
+                    if(entries.some((e)=>e.destination == dst.flow.id)){
+                        return;
+                    }
+                    // a source that is not in the crosspoint is stored by id, recall reports it as missing instead of disconnecting
+                    let src = dst.flow.connectedFlow ? this.findFlow("senders", dst.flow.connectedFlow) : null;
+                    entries.push({
+                        destination:dst.flow.id,
+                        destinationLabel:this.getLabel(dst.device, dst.flow),
+                        source:dst.flow.connectedFlow || null,
+                        sourceLabel:src ? this.getLabel(src.device, src.flow) : (dst.flow.connectedFlow || "")
+                    });
+                });
+            });
+            if(unknown.length > 0){
+                reject({status:404, message:"Destination not found: " + unknown.join(", ")});
+                return;
+            }
+
+            let previous = this.state.salvos[name];
+            this.state.salvos[name] = {
+                name:name,
+                description:(typeof data.description == "string") ? data.description : (previous?.description || ""),
+                created:previous ? previous.created : Date.now(),
+                updated:Date.now(),
+                user:user,
+                entries:entries
+            };
+            this.save();
+            SyncLog.log("info", "Salvos", "Salvo " + name + " captured with " + entries.length + " destinations.", {user:user});
+            resolve(this.state.salvos[name]);
+        });
+    }
+
+    // Same options as makeconnection (preview, activation, force, override), preview is the default
+    recall(data:any, user:string){
+        return new Promise(async (resolve, reject) => {
+            let salvo = this.state.salvos[data.name];
+            if(!salvo){
+                reject({status:404, message:"Salvo not found: " + data.name});
+                return;
+            }
+
+            let multiple = [];
+            let missing = [];
+            salvo.entries.forEach((entry)=>{
+                let dst = this.findFlow("receivers", entry.destination);
+                let src = entry.source ? this.findFlow("senders", entry.source) : null;
+                if(!dst){
+                    missing.push({dst:entry.destination, src:entry.source, status:"missing", detail:{message:"Destination " + entry.destinationLabel + " not available."}});
+                }else if(entry.source && !src){
+                    missing.push({dst:entry.destination, src:entry.source, status:"missing", detail:{message:"Source " + entry.sourceLabel + " not available."}});
+                }else{
+                    multiple.push({source:src ? this.getAddress(src.device, src.flow) : "__disconnect", destination:this.getAddress(dst.device, dst.flow)});
+                }
+            });
+
+            let result:any = {connections:[]};
+            if(multiple.length > 0){
+                try{
+                    result = await CrosspointAbstraction.instance.makeConnection({
+                        multiple:multiple,
+                        preview:data.preview,
+                        activation:data.activation,
+                        force:data.force,
+                        override:data.override
+                    }, user);
+                }catch(e){
+                    reject(e);
+                    return;
+                }
+            }
+            if(data.preview !== false){
+                SyncLog.log("info", "Salvos", "Preview of salvo " + salvo.name, {connections:result.connections.length, missing:missing.length});
+            }else{
+                SyncLog.log("info", "Salvos", "Recalled salvo " + salvo.name, {connections:result.connections.length, missing:missing.length});
+            }
+            resolve({name:salvo.name, connections:[...result.connections, ...missing]});
+        });
+    }
+
+    delete(name:string){
+        return new Promise((resolve, reject) => {
+            if(!this.state.salvos.hasOwnProperty(name)){
+                reject({status:404, message:"Salvo not found: " + name});
+                return;
+            }
+            delete this.state.salvos[name];
+            this.save();
+            resolve({});
+        });
+    }
+
+    private findReceivers(destination:string):{device:CrosspointDevice, flow:CrosspointFlow}[]{
+        let found = CrosspointAbstraction.instance.findFlows("receivers", destination);
+        return found.flows.map((flow)=>({device:found.device, flow:flow}));
+    }
+
+    private findFlow(direction:"senders"|"receivers", id:string):{device:CrosspointDevice, flow:CrosspointFlow}|null{
+        for(let device of CrosspointAbstraction.instance.crosspointState.devices){
+            for(let type of Object.keys(device[direction])){
+                let flow = device[direction][type].find((f)=>f.id == id);
+                if(flow){
+                    return {device, flow};
+                }
+            }
+        }
+        return null;
+    }
+
+    private getAddress(device:CrosspointDevice, flow:CrosspointFlow){
+        return device.num + "." + FLOW_TYPE_LETTERS[flow.type] + flow.num;
+    }
+
+    private getLabel(device:CrosspointDevice, flow:CrosspointFlow){
+        return (device.alias || device.name) + " " + (flow.alias || flow.name);
+    }
+
+    private save(){
+        this.syncSalvos.setState(this.state);
+        try{
+            fs.writeFileSync("./state/salvos.json", JSON.stringify(this.state.salvos));
+        }catch(e){
+            console.error("Error writing to file: ./state/salvos.json");
+        }
+    }
+}
+
+
+export interface SalvoEntry {
+    destination:string,
+    destinationLabel:string,
+    source:string|null,
+    sourceLabel:string
+}
+
+export interface Salvo {
+    name:string,
+    description:string,
+    created:number,
+    updated:number,
+    user:string,
+    entries:SalvoEntry[]
+}
+
+export interface SalvoState {
+    salvos:{[name:string]:Salvo}
+}
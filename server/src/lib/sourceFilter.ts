@@ -0,0 +1,52 @@
+/*
+    NMOS Crosspoint
+    Copyright (C) 2021 Johannes Grieb
+*/
+
+import * as sdpTransform from 'sdp-transform';
+import { IpInSubnet, IpToNumber } from "./functions";
+
+
+// Source-specific multicast (IGMPv3), the mode is configured per range in settings.multicastRanges:
+// "off" no source address, "source" source_ip on every receiver leg, "filter" also a=source-filter in the SDP
+
+
+export type SsmMode = "off" | "source" | "filter";
+
+// SSM mode of the first multicast range that contains the group
+export function GetSsmMode(group:string|null|undefined, multicastRanges:any):SsmMode{
+    if(IpToNumber(group) == null || !multicastRanges){
+        return "off";
+    }
+    for(let type in multicastRanges){
+        let range = multicastRanges[type];
+        if(!range || !range.ssm || range.ssm == "off"){
+            continue;
+        }
+        if(["primary", "secondary"].some((mode)=>typeof range[mode] == "string" && IpInSubnet(group, range[mode]))){
+            return range.ssm;
+        }
+    }
+    return "off";
+}
+
+// Adds or replaces the a=source-filter of a media section, other media sections are not changed
+export function SetSdpSourceFilter(sdp:string, index:number, group:string, source:string){
+    let session:any = sdpTransform.parse(sdp);
+    let media = session.media[index];
+    if(!media){
+        return sdp;
+    }
+    let filter = media.sourceFilter;
+    if(filter && filter.filterMode == "incl" && filter.destAddress == group && filter.srcList.split(" ").includes(source)){
+        return sdp;
+    }
+    media.sourceFilter = {
+        filterMode:"incl",
+        netType:"IN",
+        addressTypes:"IP4",
+        destAddress:group,
+        srcList:source
+    };
+    return sdpTransform.write(session);
+}
@@ -0,0 +1,95 @@
+/*
+    NMOS Crosspoint
+    Copyright (C) 2021 Johannes Grieb
+*/
+
+import { LoggedError } from "./syncLog";
+
+
+// IS-05 /constraints, one object per leg with the allowed values of each transport parameter
+
+
+export class TransportParamsError extends LoggedError {
+    constructor(issue:TransportParamsIssue, logId:number|string = "") {
+        super("Invalid transport parameter: " + issue.message, logId);
+        this.leg = issue.leg;
+        this.parameter = issue.parameter;
+        this.value = issue.value;
+        this.constraint = issue.constraint;
+        // Set the prototype explicitly.
+        Object.setPrototypeOf(this, TransportParamsError.prototype);
+    }
+    leg:number|null;
+    parameter:string;
+    value:any;
+    constraint:any;
+}
+
+export interface TransportParamsIssue {
+    leg:number|null,
+    parameter:string,
+    value:any,
+    constraint:any,
+    message:string
+}
+
+// Adjusts the generated legs to the leg count of the device, only empty or disabled legs are added or removed
+export function FitTransportParams(params:any[], legCount:number){
+    let fitted = [...params];
+    while(fitted.length > legCount && isUnusedLeg(fitted[fitted.length-1])){
+        fitted.pop();
+    }
+    while(fitted.length < legCount){
+        fitted.push({});
+    }
+    return fitted;
+}
+
+function isUnusedLeg(leg:any){
+    let keys = Object.keys(leg || {});
+    return keys.length == 0 || (keys.length == 1 && leg.rtp_enabled === false);
+}
+
+// Returns the first parameter that violates the constraints, null if the parameters are valid
+export function ValidateTransportParams(params:any[], constraints:any[]):TransportParamsIssue|null{
+    if(params.length != constraints.length){
+        return {
+            leg:null,
+            parameter:"transport_params",
+            value:params.length,
+            constraint:constraints.length,
+            message:"transport_params has " + params.length + " legs, the device has " + constraints.length
+        };
+    }
+
+    for(let leg = 0; leg < params.length; leg++){
+        for(let parameter of Object.keys(params[leg])){
+            let value = params[leg][parameter];
+            if(value === null || value === undefined || value === "auto"){
+                continue;
+            }
+            let constraint = constraints[leg][parameter];
+            let prefix = "leg " + (leg+1) + " " + parameter + " ";
+            if(constraint === undefined){
+                return {leg, parameter, value, constraint:null, message:prefix + "is not supported by the device"};
+            }
+            if(Array.isArray(constraint.enum) && !constraint.enum.includes(value)){
+                return {leg, parameter, value, constraint, message:prefix + JSON.stringify(value) + " not in " + JSON.stringify(constraint.enum)};
+            }
+            if(typeof value == "number" && constraint.hasOwnProperty("minimum") && value < constraint.minimum){
+                return {leg, parameter, value, constraint, message:prefix + value + " below minimum " + constraint.minimum};
+            }
+            if(typeof value == "number" && constraint.hasOwnProperty("maximum") && value > constraint.maximum){
+                return {leg, parameter, value, constraint, message:prefix + value + " above maximum " + constraint.maximum};
+            }
+            if(typeof value == "string" && typeof constraint.pattern == "string"){
+                try{
+                    if(!new RegExp(constraint.pattern).test(value)){
+                        return {leg, parameter, value, constraint, message:prefix + JSON.stringify(value) + " does not match " + constraint.pattern};
+                    }
+                }catch(e){}
+            }
+        }
+    }
+    return null;
+}
@@ -20,6 +20,13 @@ import { Topology } from "./lib/topology";
 import { MediaDevices } from "./lib/mediaDevices";
 import { SyncObject } from "./lib/SyncServer/syncObject";
 import { parseSettings } from "./lib/parseSettings";
+import { ChannelMapping } from "./lib/channelMapping";
+import { NmosEvents } from "./lib/nmosEvents";
+import { ResourceHistory } from "./lib/resourceHistory";
+import { NmosSimulator } from "./lib/nmosSimulator";
+import { NmosAuthorization } from "./lib/nmosAuth";
+import { NmosTls } from "./lib/nmosTls";
+import { Salvos } from "./lib/salvos";
 
 
 
@@ -107,8 +114,19 @@ if(users){
 // TODO.... load dynamic....
 const mediaDevices = new MediaDevices(settings);
 
+const nmosTls = new NmosTls(settings);
+const nmosAuth = new NmosAuthorization(settings);
 const crosspoint = new CrosspointAbstraction(settings);
 const nmosConnector = new NmosRegistryConnector(settings);
+const channelMapping = new ChannelMapping();
+const nmosEvents = new NmosEvents();
+const resourceHistory = new ResourceHistory(settings);
+const salvos = new Salvos();
+
+if(settings.simulator.enabled){
+    const simulator = new NmosSimulator(settings);
+    nmosConnector.addManualRegistry("127.0.0.1", settings.simulator.queryPort);
+}
 
 
 
@@ -117,8 +135,11 @@ server.addSyncObject("log","global",log);
 
 server.addSyncObject("nmos","global",nmosConnector.syncNmos);
 server.addSyncObject("nmosConnectionState","global",nmosConnector.syncConnectionState);
+server.addSyncObject("scheduledActivations","global",nmosConnector.syncScheduledActivations);
 
 server.addSyncObject("crosspoint","global",crosspoint.syncCrosspoint);
+server.addSyncObject("multicast","global",crosspoint.syncMulticast);
+server.addSyncObject("salvos","global",salvos.syncSalvos);
 
 
 let topology = null;
@@ -161,12 +182,21 @@ server.addRoute("POST", "makeconnection","global", (client: WebsocketClient, que
         console.log("[DEBUG] crosspoint.makeConnection exists:", !!(crosspoint && crosspoint.makeConnection));
         
         crosspoint
-            .makeConnection(postData)
+            .makeConnection(postData, client.user)
             .then((data) => resolve({message:200, data:data}))
             .catch((m) => reject(m));
     });
 });
 
+server.addRoute("POST", "cancelactivation","global", (client: WebsocketClient, query:string[], postData: any) => {
+    return new Promise((resolve, reject) => {
+        crosspoint
+            .cancelActivation(postData.id, client.user, postData.override === true)
+            .then((m) => resolve(m))
+            .catch((m) => reject(m));
+    });
+});
+
 server.addRoute("POST", "changealias","global", (client: WebsocketClient, query:string[], postData: any) => {
     return new Promise((resolve, reject) => {
         crosspoint
@@ -208,6 +238,78 @@ server.addRoute("POST", "setMulticast","global", (client: WebsocketClient, query
 
 
 
+server.addRoute("GET", "multicastDryRun","global", (client: WebsocketClient, query:string[], postData: any) => {
+    return new Promise((resolve, reject) => {
+        crosspoint
+            .multicastDryRun()
+            .then((m) => resolve(m))
+            .catch((m) => reject(m));
+    });
+});
+
+server.addRoute("POST", "multicastReserve","global", (client: WebsocketClient, query:string[], postData: any) => {
+    return new Promise((resolve, reject) => {
+        crosspoint
+            .multicastReserve(postData)
+            .then((m) => resolve(m))
+            .catch((m) => reject(m));
+    });
+});
+
+server.addRoute("POST", "multicastRelease","global", (client: WebsocketClient, query:string[], postData: any) => {
+    return new Promise((resolve, reject) => {
+        crosspoint
+            .multicastRelease(postData)
+            .then((m) => resolve(m))
+            .catch((m) => reject(m));
+    });
+});
+
+server.addRoute("POST", "multicastReassign","global", (client: WebsocketClient, query:string[], postData: any) => {
+    return new Promise((resolve, reject) => {
+        crosspoint
+            .multicastReassign(postData)
+            .then((m) => resolve(m))
+            .catch((m) => reject(m));
+    });
+});
+
+server.addRoute("POST", "virtualSourceCreate","global", (client: WebsocketClient, query:string[], postData: any) => {
+    return new Promise((resolve, reject) => {
+        crosspoint
+            .virtualSourceCreate(postData)
+            .then((m) => resolve(m))
+            .catch((m) => reject(m));
+    });
+});
+
+server.addRoute("POST", "virtualSourceDelete","global", (client: WebsocketClient, query:string[], postData: any) => {
+    return new Promise((resolve, reject) => {
+        crosspoint
+            .virtualSourceDelete(postData)
+            .then((m) => resolve(m))
+            .catch((m) => reject(m));
+    });
+});
+
+server.addRoute("POST", "virtualSourceMap","global", (client: WebsocketClient, query:string[], postData: any) => {
+    return new Promise((resolve, reject) => {
+        crosspoint
+            .virtualSourceMap(postData, client.user)
+            .then((m) => resolve(m))
+            .catch((m) => reject(m));
+    });
+});
+
+server.addRoute("POST", "setLock","global", (client: WebsocketClient, query:string[], postData: any) => {
+    return new Promise((resolve, reject) => {
+        crosspoint
+            .setLock(postData, client.user)
+            .then((m) => resolve(m))
+            .catch((m) => reject(m));
+    });
+});
+
 server.addRoute("POST", "togglehidden","global", (client: WebsocketClient, query:string[], postData: any) => {
     return new Promise((resolve, reject) => {
         crosspoint
@@ -230,3 +332,33 @@ server.addRoute("POST", "crosspoint","global", (client: WebsocketClient, query:s
 });
 
 
+
+
+
+// Salvos
+server.addRoute("POST", "salvoCapture","global", (client: WebsocketClient, query:string[], postData: any) => {
+    return new Promise((resolve, reject) => {
+        salvos
+            .capture(postData, client.user)
+            .then((m) => resolve(m))
+            .catch((m) => reject(m));
+    });
+});
+
+server.addRoute("POST", "salvoRecall","global", (client: WebsocketClient, query:string[], postData: any) => {
+    return new Promise((resolve, reject) => {
+        salvos
+            .recall(postData, client.user)
+            .then((data) => resolve({message:200, data:data}))
+            .catch((m) => reject(m));
+    });
+});
+
+server.addRoute("POST", "salvoDelete","global", (client: WebsocketClient, query:string[], postData: any) => {
+    return new Promise((resolve, reject) => {
+        salvos
+            .delete(postData.name)
+            .then((m) => resolve(m))
+            .catch((m) => reject(m));
+    });
+});